@@ -0,0 +1,309 @@
+import { randomUUID } from 'node:crypto';
+import { link, readFile, rename, unlink, writeFile } from 'node:fs/promises';
+import { hostname } from 'node:os';
+import { join, resolve } from 'node:path';
+
+import type { HeldLock, LockOwner } from '../interfaces';
+
+import { DatabaseLockedError } from './errors';
+
+/**
+ * Locks held by this process, by lock file path.
+ * Instances in the same process share a lock instead of competing for it.
+ */
+const heldLocks: Map<string, HeldLock> = new Map();
+
+/**
+ * @description Exclusive, cross-process lock on a database directory.
+ *
+ * The lock is a hidden `.lock` file recording the owning process (PID, hostname)
+ * and a heartbeat that is refreshed while the lock is held. A lock is considered
+ * stale, and is taken over, if its process no longer runs on this host or its
+ * heartbeat is older than the stale timeout.
+ *
+ * @example
+ * const lock = new DirectoryLock('./data', 30000);
+ * await lock.acquire(); // Throws DatabaseLockedError if owned by another process
+ * await lock.release();
+ */
+export class DirectoryLock {
+  private readonly databaseDirectory: string;
+  private readonly lockPath: string;
+  private readonly staleTimeout: number;
+  private held: HeldLock | null = null;
+
+  constructor(databaseDirectory: string, staleTimeout: number) {
+    this.databaseDirectory = databaseDirectory;
+    this.lockPath = resolve(join(databaseDirectory, '.lock'));
+    this.staleTimeout = staleTimeout;
+  }
+
+  /**
+   * @description Acquire the lock, taking over stale locks.
+   * Safe to call more than once.
+   */
+  async acquire(): Promise<void> {
+    if (this.held) return;
+
+    let held = heldLocks.get(this.lockPath);
+
+    if (!held) {
+      held = {
+        owners: 0,
+        owner: this.createOwner(),
+        ready: Promise.resolve(),
+        heartbeat: null,
+        lost: false,
+        lostTo: null
+      };
+
+      const lock = held;
+      lock.ready = this.createLockFile(lock.owner).catch((error) => {
+        heldLocks.delete(this.lockPath);
+        throw error;
+      });
+
+      heldLocks.set(this.lockPath, lock);
+    }
+
+    await held.ready;
+
+    if (!held.heartbeat) {
+      const lock = held;
+      lock.heartbeat = setInterval(
+        () => this.refreshHeartbeat(lock),
+        Math.max(Math.floor(this.staleTimeout / 3), 1)
+      );
+      lock.heartbeat.unref();
+    }
+
+    held.owners++;
+    this.held = held;
+  }
+
+  /**
+   * @description Release the lock. The lock file is removed once the last
+   * instance in this process has released it. Safe to call more than once.
+   */
+  async release(): Promise<void> {
+    const held = this.held;
+    if (!held) return;
+
+    this.held = null;
+
+    held.owners--;
+    if (held.owners > 0) return;
+
+    if (heldLocks.get(this.lockPath) === held) heldLocks.delete(this.lockPath);
+    if (held.heartbeat) clearInterval(held.heartbeat);
+
+    // Never remove a lock that has been taken over by someone else
+    const current = await this.readOwner();
+    if (current?.id === held.owner.id) await this.removeFile(this.lockPath);
+  }
+
+  /**
+   * @description Get the owner of the lock if an instance in this process holds it.
+   */
+  getLocalOwner(): LockOwner | null {
+    return heldLocks.get(this.lockPath)?.owner ?? null;
+  }
+
+  /**
+   * @description Check if the lock was acquired but has since been lost, such as when another
+   * process took it over after a missed heartbeat.
+   */
+  isLost(): boolean {
+    return this.held?.lost ?? false;
+  }
+
+  /**
+   * @description Throw if the lock has been lost, so nothing gets written without it.
+   *
+   * @throws DatabaseLockedError naming the process that holds the lock now, if known
+   */
+  assertHeld(): void {
+    if (this.held?.lost)
+      throw new DatabaseLockedError(this.databaseDirectory, this.held.lostTo);
+  }
+
+  /**
+   * @description Create the lock file, taking over a stale lock once.
+   *
+   * A stale lock is renamed away rather than removed, as renaming is atomic: of several
+   * processes taking over the same stale lock, only one moves it. The others move the lock
+   * file that process has created since, see that it is not the stale one, and put it back.
+   */
+  private async createLockFile(owner: LockOwner): Promise<void> {
+    if (await this.tryCreateLockFile(owner)) return;
+
+    const staleContent = await this.readLockFile(this.lockPath);
+    const current = this.parseOwner(staleContent);
+    if (current && !this.isStale(current))
+      throw new DatabaseLockedError(this.databaseDirectory, current);
+
+    const stalePath = `${this.lockPath}.stale.${owner.id}`;
+
+    try {
+      await rename(this.lockPath, stalePath);
+    } catch (error) {
+      // Removed by its owner or moved by another process: try to create it below
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+
+    const movedContent = await this.readLockFile(stalePath);
+
+    if (movedContent !== null && movedContent !== staleContent) {
+      // Another process took over the stale lock first: put its lock back, unless replaced again
+      await this.restoreLockFile(stalePath);
+      throw new DatabaseLockedError(
+        this.databaseDirectory,
+        this.parseOwner(movedContent)
+      );
+    }
+
+    await this.removeFile(stalePath);
+
+    // Another process may have created the lock in the meantime
+    if (!(await this.tryCreateLockFile(owner)))
+      throw new DatabaseLockedError(
+        this.databaseDirectory,
+        await this.readOwner()
+      );
+  }
+
+  /**
+   * @description Move a lock file back into place without replacing a lock created meanwhile.
+   */
+  private async restoreLockFile(movedPath: string): Promise<void> {
+    try {
+      await link(movedPath, this.lockPath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    } finally {
+      await this.removeFile(movedPath);
+    }
+  }
+
+  /**
+   * @description Create the lock file unless it already exists.
+   */
+  private async tryCreateLockFile(owner: LockOwner): Promise<boolean> {
+    try {
+      await writeFile(this.lockPath, JSON.stringify(owner), { flag: 'wx' });
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') return false;
+      throw error;
+    }
+  }
+
+  /**
+   * @description Refresh the heartbeat of a held lock using an atomic rewrite.
+   * A lock found to be owned by someone else is marked as lost, which stops all writes.
+   */
+  private async refreshHeartbeat(held: HeldLock): Promise<void> {
+    try {
+      const current = await this.readOwner();
+
+      if (current?.id !== held.owner.id) {
+        console.error(
+          `Lost lock on database directory "${this.databaseDirectory}", stopping writes`
+        );
+        held.lost = true;
+        held.lostTo = current;
+        if (held.heartbeat) clearInterval(held.heartbeat);
+
+        // Instances started from now on must acquire the lock anew
+        if (heldLocks.get(this.lockPath) === held)
+          heldLocks.delete(this.lockPath);
+        return;
+      }
+
+      held.owner.heartbeat = Date.now();
+
+      const tempPath = `${this.lockPath}.${held.owner.id}`;
+      await writeFile(tempPath, JSON.stringify(held.owner));
+      await rename(tempPath, this.lockPath);
+    } catch (error) {
+      console.error('Failed to refresh database lock heartbeat:', error);
+    }
+  }
+
+  /**
+   * @description Read the current lock owner, or null if missing or unreadable.
+   */
+  private async readOwner(): Promise<LockOwner | null> {
+    return this.parseOwner(await this.readLockFile(this.lockPath));
+  }
+
+  /**
+   * @description Read the content of a lock file, or null if missing.
+   */
+  private async readLockFile(path: string): Promise<string | null> {
+    try {
+      return await readFile(path, 'utf8');
+    } catch (_) {
+      return null;
+    }
+  }
+
+  /**
+   * @description Parse the owner recorded in a lock file, or null if missing or unreadable.
+   */
+  private parseOwner(content: string | null): LockOwner | null {
+    try {
+      return content === null ? null : JSON.parse(content);
+    } catch (_) {
+      return null;
+    }
+  }
+
+  /**
+   * @description Remove a file, ignoring a file that is already gone.
+   */
+  private async removeFile(path: string): Promise<void> {
+    try {
+      await unlink(path);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+  }
+
+  /**
+   * @description Check if a lock is stale: its process is gone (same host only)
+   * or its heartbeat has not been refreshed within the stale timeout.
+   */
+  private isStale(owner: LockOwner): boolean {
+    if (Date.now() - owner.heartbeat > this.staleTimeout) return true;
+
+    if (owner.hostname !== hostname()) return false;
+
+    // Locks held by this process are shared, so this one must be left from a
+    // previous process that had the same PID (common for PID 1 in containers)
+    if (owner.pid === process.pid) return true;
+
+    try {
+      process.kill(owner.pid, 0);
+      return false;
+    } catch (error) {
+      // EPERM means the process exists but belongs to another user
+      return (error as NodeJS.ErrnoException).code === 'ESRCH';
+    }
+  }
+
+  /**
+   * @description Describe this process as a lock owner.
+   */
+  private createOwner(): LockOwner {
+    const now = Date.now();
+
+    return {
+      id: randomUUID(),
+      pid: process.pid,
+      hostname: hostname(),
+      acquiredAt: now,
+      heartbeat: now
+    };
+  }
+}
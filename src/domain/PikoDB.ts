@@ -1,12 +1,18 @@
+import { existsSync, mkdirSync, readdirSync, statSync } from 'node:fs';
 import {
-  existsSync,
-  mkdirSync,
-  readdirSync,
-  openSync,
-  closeSync
-} from 'node:fs';
-import { readFile, writeFile, rename, unlink, open } from 'node:fs/promises';
-import { join, dirname } from 'node:path';
+  type FileHandle,
+  copyFile,
+  readFile,
+  rename,
+  unlink,
+  open,
+  truncate,
+  mkdir,
+  rm
+} from 'node:fs/promises';
+import { basename, dirname, join } from 'node:path';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
 
 import {
   type ProcessedDictionary,
@@ -14,10 +20,111 @@ import {
   processDictionary,
   transformValue
 } from '../interfaces/Dictionary';
-import type { DatabaseOptions, DatabaseRecord } from '../interfaces';
+import type {
+  BackupFile,
+  BackupManifest,
+  CatalogDictionary,
+  CompressionCodec,
+  CompressionStats,
+  DatabaseOptions,
+  DatabaseRecord,
+  DeserializedTable,
+  DictionaryCatalog,
+  DictionarySuggestion,
+  Durability,
+  ExportedRecord,
+  ImportOptions,
+  IndexOptions,
+  IterateOptions,
+  KeyRange,
+  ListOptions,
+  ListPage,
+  Migration,
+  PendingCommit,
+  QueryFilter,
+  QueryOptions,
+  ScanOptions,
+  StagedTable,
+  SuggestDictionaryOptions,
+  SystemTable,
+  TableOptions,
+  UpdateDictionaryOptions
+} from '../interfaces';
+
+import { DirectoryLock } from './DirectoryLock';
+import {
+  DatabaseLockedError,
+  DatabaseVersionError,
+  DictionaryNotFoundError,
+  EncryptionKeyError,
+  TableCorruptedError,
+  UniqueConstraintError
+} from './errors';
+import { SecondaryIndex } from './SecondaryIndex';
+import { SortedMap } from './SortedMap';
 
 import {
+  BACKUP_VERSION,
+  checksumFile,
+  readBackupManifest,
+  verifyBackup,
+  writeBackupManifest
+} from '../utils/backup';
+import { decompress, getCompressionCodec } from '../utils/compression';
+import { decodeCursor, encodeCursor } from '../utils/cursor';
+import {
+  DICTIONARY_CATALOG,
+  DICTIONARY_CATALOG_VERSION,
+  isSameMapping,
+  readDictionaryCatalog,
+  writeDictionaryCatalog
+} from '../utils/dictionaryCatalog';
+import { countKeys, suggestMapping } from '../utils/dictionarySuggestion';
+import {
+  decrypt,
+  ENCRYPTION_FLAG,
+  encrypt,
+  getKeyFingerprint
+} from '../utils/encryption';
+import { getFieldValue } from '../utils/fieldPath';
+import { decodeTableFile, hasTableFileHeader } from '../utils/fileFormat';
+import { readLines } from '../utils/ndjson';
+import {
+  compareFieldValues,
+  getEqualityConditions,
+  matchesFilter,
+  projectValue
+} from '../utils/query';
+import {
+  getShardIndex,
+  getShardIndexFromName,
+  getShardName
+} from '../utils/sharding';
+import {
+  compareVersions,
+  readSystemTable,
+  SYSTEM_TABLE,
+  writeSystemTable
+} from '../utils/system';
+import { decodeTableStream, encodeTableStream } from '../utils/tableStream';
+import {
+  validateAppVersion,
+  validateBackupDirectory,
+  validateCompression,
+  validateDurability,
+  validateEncryptionKey,
+  validateImportedRecord,
+  validateImportMode,
+  validateIndexName,
+  validateIndexOptions,
+  validateIterateOptions,
   validateKey,
+  validateListOptions,
+  validateMigrations,
+  validateQueryOptions,
+  validateScanOptions,
+  validateShards,
+  validateSuggestionOptions,
   validateTableName,
   validateValue
 } from '../utils/validation';
@@ -29,9 +136,31 @@ import {
  * - Immediate disk persistence with atomic writes
  * - Simple memory + disk architecture
  * - Full data type support
- * - Concurrent operation safety
+ * - Concurrent operation safety with grouped commits per table
  * - Multiple named dictionaries for flexible compression
  * - Dynamic dictionary management (add/remove at runtime)
+ * - Versioned dictionary catalog persisted with the data
+ * - Re-encoding of tables when dictionaries change
+ * - Dictionary suggestions generated from table contents
+ * - Lossless dictionary encoding, escaping keys that collide with short keys
+ * - Dictionary compression of repeated string values
+ * - Ordered key range and prefix scans over sorted keys
+ * - Cursor-based pagination that stays stable across concurrent changes
+ * - Async iteration over table entries, keys and values, with abort signals
+ * - Secondary indexes on value fields, with unique constraints
+ * - Declarative queries with filters, projection and sorting, using indexes
+ * - Optional append-only table log with automatic compaction
+ * - Cross-process directory lock, with a shared read-only mode
+ * - Optional lazy table loading with an LRU memory budget
+ * - Versioned table file format with checksums
+ * - Quarantine of corrupted table files
+ * - Optional whole-file compression (gzip, deflate, brotli), global or per table
+ * - Optional AES-256-GCM encryption at rest with key rotation
+ * - Optional hash-sharded tables that only rewrite changed shards
+ * - Streaming table files, written and loaded one record at a time
+ * - Consistent online backups with verified restore
+ * - NDJSON export and import of tables
+ * - Versioned schema migrations, tracked in a hidden system table
  *
  * @example
  * // Basic usage
@@ -84,19 +213,101 @@ import {
  * await db.close();
  */
 export class PikoDB {
-  private readonly data: Map<string, Map<string, DatabaseRecord>> = new Map();
+  private readonly data: Map<string, SortedMap<DatabaseRecord>> = new Map();
   private readonly databaseDirectory: string;
   private readonly dictionaries: Map<string, ProcessedDictionary> = new Map();
-  private readonly useFsync: boolean;
+  private readonly dictionaryVersions: Map<string, ProcessedDictionary[]> =
+    new Map();
+  private isDictionaryCatalogLoaded = false;
+  private isDictionaryCatalogDirty = false;
+  private readonly durability: Durability;
+  private readonly appendOnly: boolean;
+  private readonly compactionThreshold: number;
+  private readonly logSizes: Map<string, number> = new Map();
+  private readonly compactionsScheduled: Set<string> = new Set();
+  private readonly tableLocks: Map<string, Promise<void>> = new Map();
+  private readonly pendingCommits: Map<string, PendingCommit> = new Map();
+  private readonly tableGenerations: Map<string, number> = new Map();
+  private readonly persistedGenerations: Map<string, number> = new Map();
+  private readonly readOnly: boolean;
+  private readonly lock: DirectoryLock;
+  private readonly lazyLoad: boolean;
+  private readonly maxLoadedTables: number;
+  private readonly maxMemoryBytes: number;
+  private readonly unloadedTables: Set<string> = new Set();
+  private readonly loadingTables: Map<string, Promise<void>> = new Map();
+  private readonly migratingTables: Map<string, Promise<void>> = new Map();
+  private readonly deletingTables: Map<string, Promise<void>> = new Map();
+  private readonly recentlyUsedTables: Set<string> = new Set();
+  private readonly tableSizes: Map<string, number> = new Map();
+  private evictionScheduled = false;
+  private readonly corruptedTables: Map<string, TableCorruptedError> =
+    new Map();
+  private readonly onCorruption?: (error: TableCorruptedError) => void;
+  private readonly failOnCorruption: boolean;
+  private readonly compression: CompressionCodec;
+  private readonly tableOptions: Record<string, TableOptions>;
+  private readonly fileStats: Map<string, Map<number, CompressionStats>> =
+    new Map();
+  private readonly shards: number;
+  private readonly tableShardCounts: Map<string, number> = new Map();
+  private readonly dirtyShards: Map<string, Set<number>> = new Map();
+  private encryptionKey: Buffer | null = null;
+  private readonly decryptionKeys: Map<string, Buffer> = new Map();
+  private readonly keyProvider?: () => Buffer | Promise<Buffer>;
+  private readonly appVersion: string | null;
+  private readonly indexDefinitions: Map<string, Map<string, IndexOptions>> =
+    new Map();
 
   constructor(options: DatabaseOptions) {
     this.databaseDirectory = options.databaseDirectory;
-    this.useFsync = options.durableWrites ?? false;
+    this.durability =
+      options.durability ?? (options.durableWrites ? 'fsync+dir' : 'atomic');
+    this.appendOnly = options.appendOnly ?? false;
+    this.compactionThreshold = options.compactionThreshold ?? 1000;
+    this.readOnly = options.readOnly ?? false;
+    this.lock = new DirectoryLock(
+      this.databaseDirectory,
+      options.lockStaleTimeout ?? 30000
+    );
+    this.lazyLoad = options.lazyLoad ?? false;
+    this.maxLoadedTables = options.maxLoadedTables ?? Number.POSITIVE_INFINITY;
+    this.maxMemoryBytes = options.maxMemoryBytes ?? Number.POSITIVE_INFINITY;
+    this.onCorruption = options.onCorruption;
+    this.failOnCorruption = options.failOnCorruption ?? false;
+    this.compression = options.compression ?? 'none';
+    this.tableOptions = options.tables ?? {};
+    this.shards = options.shards ?? 0;
+    this.appVersion = options.appVersion ?? null;
+
+    validateCompression(this.compression);
+    validateShards(this.shards);
+    validateDurability(this.durability);
+    if (this.appVersion !== null) validateAppVersion(this.appVersion);
+    for (const tableOptions of Object.values(this.tableOptions)) {
+      if (tableOptions.compression)
+        validateCompression(tableOptions.compression);
+      if (tableOptions.shards !== undefined)
+        validateShards(tableOptions.shards);
+      if (tableOptions.durability) validateDurability(tableOptions.durability);
+    }
+
+    if (options.encryption) {
+      const { key, keyProvider, previousKeys = [] } = options.encryption;
+
+      if (!key && !keyProvider)
+        throw new Error('Encryption requires a key or a keyProvider');
+
+      for (const previousKey of previousKeys)
+        this.addDecryptionKey(previousKey);
+      if (key) this.setEncryptionKey(key);
+      this.keyProvider = keyProvider;
+    }
 
     if (options.dictionaries) {
       Object.entries(options.dictionaries).forEach(([name, dict]) => {
         const processed = processDictionary(dict);
-        this.dictionaries.set(name, processed);
+        this.setDictionary(name, processed);
       });
     }
 
@@ -105,7 +316,16 @@ export class PikoDB {
   }
 
   /**
-   * @description Initialize the database by loading existing tables from disk.
+   * @description Initialize the database by locking the directory and loading existing tables from disk.
+   * Dictionaries stored in the dictionary catalog are loaded too, next to those passed in the options.
+   * Read-only instances skip the lock. With `lazyLoad`, tables are only discovered here
+   * and loaded on first use.
+   *
+   * @throws DatabaseLockedError if another process owns the directory
+   * @throws TableCorruptedError if a table is corrupted and `failOnCorruption` is enabled
+   * @throws EncryptionKeyError if a table is encrypted with a key that is not configured
+   * @throws DictionaryNotFoundError if a table has records encoded with a dictionary that is not in the catalog
+   * @throws DatabaseVersionError if the directory was migrated by a newer `appVersion`
    *
    * @example
    * const db = new PikoDB({ databaseDirectory: './data' });
@@ -113,15 +333,40 @@ export class PikoDB {
    */
   async start(): Promise<void> {
     try {
+      if (!this.readOnly) await this.lock.acquire();
+
+      const systemTable = await readSystemTable(this.databaseDirectory);
+      this.assertAppVersion(systemTable);
+      this.loadIndexDefinitions(systemTable);
+      await this.loadDictionaryCatalog();
+
+      if (this.keyProvider) this.setEncryptionKey(await this.keyProvider());
+
+      if (!this.readOnly) await this.recoverReplacedTables();
+
       const files = readdirSync(this.databaseDirectory);
+      const tableNames = new Set<string>();
+
+      for (const file of files) {
+        // Skip temporary files, hidden files and directories that are not sharded tables
+        if (this.isTableEntry(file)) tableNames.add(file);
+      }
 
+      // Tables that so far only exist as a log (never compacted)
       for (const file of files) {
-        // Skip temporary files and hidden files
-        if (!file.endsWith('.tmp') && !file.startsWith('.'))
-          await this.loadTable(file);
+        const tableName = this.getTableNameFromLogFile(file);
+        if (tableName) tableNames.add(tableName);
+      }
+
+      for (const tableName of tableNames) {
+        if (this.data.has(tableName)) continue;
+
+        if (this.lazyLoad) this.unloadedTables.add(tableName);
+        else await this.ensureTable(tableName);
       }
     } catch (error) {
       console.error('Failed to start database:', error);
+      await this.lock.release();
       throw error;
     }
   }
@@ -135,6 +380,8 @@ export class PikoDB {
    * @param expirationTimestamp - Optional expiration timestamp in milliseconds
    * @param dictionaryName - Optional dictionary name to use for compression
    * @returns True if write succeeded, false otherwise
+   * @throws TableCorruptedError if the table was quarantined as corrupted
+   * @throws UniqueConstraintError if another record has the same value in a unique index
    *
    * @example
    * // Simple write
@@ -173,20 +420,14 @@ export class PikoDB {
     validateTableName(tableName);
     validateKey(key);
     validateValue(value);
+    this.assertWritable();
 
     // Validate dictionary name if provided
-    if (dictionaryName && !this.dictionaries.has(dictionaryName)) {
-      throw new Error(
-        `Dictionary "${dictionaryName}" not found. Available dictionaries: ${Array.from(this.dictionaries.keys()).join(', ') || 'none'}`
-      );
-    }
+    if (dictionaryName) this.assertDictionaryExists(dictionaryName);
 
     try {
-      // Ensure table exists in memory
-      if (!this.data.has(tableName)) this.data.set(tableName, new Map());
+      const table = await this.ensureWritableTable(tableName);
 
-      // biome-ignore lint/style/noNonNullAssertion: OK
-      const table = this.data.get(tableName)!;
       const currentRecord = table.get(key);
       const newVersion = (currentRecord?.version || 0) + 1;
 
@@ -198,12 +439,21 @@ export class PikoDB {
         dictionaryName: dictionaryName || undefined
       };
 
+      this.assertUniqueIndexes(tableName, table, [[key, record]], false);
       table.set(key, record);
 
-      await this.persistTable(tableName);
+      await this.commit(tableName, [key]);
 
       return true;
     } catch (error) {
+      if (
+        error instanceof TableCorruptedError ||
+        error instanceof EncryptionKeyError ||
+        error instanceof DictionaryNotFoundError ||
+        error instanceof UniqueConstraintError
+      )
+        throw error;
+
       console.error(`Write failed for ${tableName}:${key}:`, error);
       return false;
     }
@@ -240,10 +490,7 @@ export class PikoDB {
     if (key !== undefined) validateKey(key);
 
     try {
-      if (!this.data.has(tableName)) await this.loadTable(tableName);
-
-      const table = this.data.get(tableName);
-      if (!table) return key ? undefined : [];
+      const table = await this.ensureTable(tableName);
 
       if (key !== undefined) {
         const record = table.get(key);
@@ -251,7 +498,7 @@ export class PikoDB {
 
         if (this.isExpired(record)) {
           table.delete(key);
-          await this.persistTable(tableName);
+          await this.commit(tableName, [key]);
           return undefined;
         }
 
@@ -269,7 +516,7 @@ export class PikoDB {
       if (expiredKeys.length > 0) {
         for (const expiredKey of expiredKeys) table.delete(expiredKey);
 
-        await this.persistTable(tableName);
+        await this.commit(tableName, expiredKeys);
       }
 
       return result;
@@ -279,12 +526,458 @@ export class PikoDB {
     }
   }
 
+  /**
+   * @description Get the records of a table within a range of keys, in key order.
+   * Keys are kept sorted alongside the table, so only the keys in the range are visited.
+   * Keys are compared by UTF-16 code units, so "10" sorts before "9": pad numbers to sort them.
+   *
+   * @param tableName - The table to scan
+   * @param options - Key bounds (`prefix`, `gt`, `gte`, `lt`, `lte`), `limit` and `reverse`
+   * @returns Array of [key, value] tuples, in ascending key order (descending with `reverse`)
+   *
+   * @example
+   * // All orders of October 2026
+   * const orders = await db.scan('orders', { prefix: 'order:2026-10:' });
+   *
+   * @example
+   * // The last 50 keys
+   * const latest = await db.scan('events', { reverse: true, limit: 50 });
+   *
+   * @example
+   * // Keys from "b" up to, but not including, "d"
+   * const range = await db.scan('users', { gte: 'b', lt: 'd' });
+   */
+  async scan(
+    tableName: string,
+    options: ScanOptions = {}
+  ): Promise<[string, any][]> {
+    // Validate inputs (throws on error)
+    validateTableName(tableName);
+    validateScanOptions(options);
+
+    try {
+      const table = await this.ensureTable(tableName);
+      const { limit = Number.POSITIVE_INFINITY, reverse = false } = options;
+
+      const result: [string, any][] = [];
+      const expiredKeys: string[] = [];
+
+      for (const key of table.rangeKeys(options, reverse)) {
+        if (result.length >= limit) break;
+
+        const record = table.get(key) as DatabaseRecord;
+        if (this.isExpired(record)) expiredKeys.push(key);
+        else result.push([key, record.value]);
+      }
+
+      if (expiredKeys.length > 0) {
+        for (const expiredKey of expiredKeys) table.delete(expiredKey);
+
+        await this.commit(tableName, expiredKeys);
+      }
+
+      return result;
+    } catch (error) {
+      console.error(`Scan failed for ${tableName}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * @description List the records of a table one page at a time, in key order, without
+   * materializing the whole table. Pass the `nextCursor` of a page to get the next one.
+   *
+   * Cursors hold the last key of their page, so they stay valid across concurrent writes and
+   * deletes: every record present for the whole listing is returned exactly once, records
+   * written meanwhile are returned if their key comes after the cursor, and records deleted
+   * meanwhile (even the one a cursor points after) are never returned again.
+   *
+   * @param tableName - The table to list
+   * @param options - The `limit` of records per page (default: 100) and the `cursor` to continue from
+   * @returns The `items` of the page as [key, value] tuples, and the `nextCursor`, or null on the last page
+   * @throws If the options are invalid, or the cursor is malformed or from another table
+   *
+   * @example
+   * let page = await db.list('users', { limit: 50 });
+   * while (page.nextCursor)
+   *   page = await db.list('users', { limit: 50, cursor: page.nextCursor });
+   */
+  async list(tableName: string, options: ListOptions = {}): Promise<ListPage> {
+    // Validate inputs (throws on error)
+    validateTableName(tableName);
+    validateListOptions(options);
+    const afterKey =
+      options.cursor === undefined
+        ? undefined
+        : decodeCursor(tableName, options.cursor);
+
+    try {
+      const table = await this.ensureTable(tableName);
+      const { limit = 100 } = options;
+
+      const items: [string, any][] = [];
+      const expiredKeys: string[] = [];
+      let hasMore = false;
+
+      // Look one live record past the page, so the last page never has a next cursor
+      for (const key of table.rangeKeys({ gt: afterKey })) {
+        const record = table.get(key) as DatabaseRecord;
+        if (this.isExpired(record)) expiredKeys.push(key);
+        else if (items.length === limit) {
+          hasMore = true;
+          break;
+        } else items.push([key, record.value]);
+      }
+
+      if (expiredKeys.length > 0) {
+        for (const expiredKey of expiredKeys) table.delete(expiredKey);
+
+        await this.commit(tableName, expiredKeys);
+      }
+
+      return {
+        items,
+        nextCursor: hasMore
+          ? encodeCursor(tableName, items[items.length - 1][0])
+          : null
+      };
+    } catch (error) {
+      console.error(`List failed for ${tableName}:`, error);
+      return { items: [], nextCursor: null };
+    }
+  }
+
+  /**
+   * @description Iterate over the records of a table in key order, without materializing
+   * the whole table. Records are read a batch at a time, so writes can run in between, and
+   * expired records are skipped (and cleaned up) as they are reached.
+   *
+   * A record written during iteration is yielded if its key comes after the batches read so far,
+   * and a record deleted during iteration is not, unless its batch was already read.
+   *
+   * @param tableName - The table to iterate over
+   * @param options - Key bounds (`prefix`, `gt`, `gte`, `lt`, `lte`), `reverse`, `signal` and `batchSize`
+   * @returns Async iterator of [key, value] tuples, for `for await` or `Readable.from()`
+   * @throws If the options are invalid. The iterator throws the abort reason once `signal` is aborted,
+   * and any error loading the table, such as TableCorruptedError if it was quarantined as corrupted.
+   *
+   * @example
+   * for await (const [key, user] of db.entries('users')) {
+   *   await sendNewsletter(key, user);
+   * }
+   *
+   * @example
+   * // Stream a table as NDJSON, stopping on abort
+   * const controller = new AbortController();
+   * await pipeline(
+   *   Readable.from(db.entries('events', { signal: controller.signal })),
+   *   new Transform({
+   *     objectMode: true,
+   *     transform: ([key, value], _, done) => done(null, `${JSON.stringify({ key, value })}\n`)
+   *   }),
+   *   createWriteStream('events.ndjson')
+   * );
+   */
+  entries(
+    tableName: string,
+    options: IterateOptions = {}
+  ): AsyncIterableIterator<[string, any]> {
+    // Validate inputs (throws on error)
+    validateTableName(tableName);
+    validateIterateOptions(options);
+
+    return this.iterateTable(tableName, options);
+  }
+
+  /**
+   * @description Iterate over the keys of a table in key order. See `entries()`.
+   *
+   * @example
+   * for await (const key of db.keys('sessions', { prefix: 'user1:' })) console.log(key);
+   */
+  keys(
+    tableName: string,
+    options: IterateOptions = {}
+  ): AsyncIterableIterator<string> {
+    const entries = this.entries(tableName, options);
+
+    return (async function* () {
+      for await (const [key] of entries) yield key;
+    })();
+  }
+
+  /**
+   * @description Iterate over the values of a table in key order. See `entries()`.
+   *
+   * @example
+   * let total = 0;
+   * for await (const order of db.values('orders')) total += order.amount;
+   */
+  values(
+    tableName: string,
+    options: IterateOptions = {}
+  ): AsyncIterableIterator<any> {
+    const entries = this.entries(tableName, options);
+
+    return (async function* () {
+      for await (const [, value] of entries) yield value;
+    })();
+  }
+
+  /**
+   * @description Create a secondary index on a table, to look records up by a field of their
+   * values with `findByIndex()` instead of reading the whole table. The index is kept in memory,
+   * updated on every change to the table and rebuilt whenever the table is loaded.
+   *
+   * Indexes on a field are persisted in the system table and rebuilt after restarts, so creating
+   * them again is a no-op. Indexes with a function cannot be persisted, and must be created
+   * again after every `start()`. Only strings, numbers and booleans are indexed.
+   *
+   * @param tableName - The table to index
+   * @param indexName - The name of the index, unique per table
+   * @param options - The `field` to index (a field path or a function), and whether it is `unique`
+   * @throws If the options are invalid, or the index exists with a different definition
+   * @throws UniqueConstraintError if the index is unique and the table already has duplicates
+   *
+   * @example
+   * await db.createIndex('users', 'byEmail', { field: 'email', unique: true });
+   * await db.createIndex('users', 'byCity', { field: 'address.city' });
+   * await db.createIndex('users', 'byDomain', {
+   *   field: (user) => user.email?.split('@')[1]
+   * });
+   */
+  async createIndex(
+    tableName: string,
+    indexName: string,
+    options: IndexOptions
+  ): Promise<void> {
+    // Validate inputs (throws on error)
+    validateTableName(tableName);
+    validateIndexName(indexName);
+    validateIndexOptions(options);
+
+    const definition = {
+      field: options.field,
+      unique: options.unique ?? false
+    };
+    const table = await this.ensureTable(tableName);
+
+    const existing = this.indexDefinitions.get(tableName)?.get(indexName);
+    if (existing) {
+      if (
+        existing.field === definition.field &&
+        existing.unique === definition.unique
+      )
+        return;
+
+      throw new Error(
+        `Index "${indexName}" already exists on table "${tableName}" with a different definition. Drop it first.`
+      );
+    }
+
+    const index = this.createSecondaryIndex(definition);
+    const records = Array.from(table).filter(
+      ([, record]) => !this.isExpired(record)
+    );
+    this.assertUniqueIndexes(
+      tableName,
+      table,
+      records,
+      true,
+      new Map([[indexName, index]])
+    );
+
+    table.setIndex(indexName, index);
+
+    const definitions = this.indexDefinitions.get(tableName) || new Map();
+    definitions.set(indexName, definition);
+    this.indexDefinitions.set(tableName, definitions);
+
+    if (typeof definition.field === 'string') await this.persistIndexes();
+  }
+
+  /**
+   * @description Get the records of a table whose indexed value equals a value, in the order
+   * they were indexed. Only the matching records are visited.
+   *
+   * @param tableName - The table to look records up in
+   * @param indexName - The name of the index
+   * @param value - The indexed value to match
+   * @returns Array of [key, value] tuples
+   * @throws If the index does not exist
+   *
+   * @example
+   * const [[key, user]] = await db.findByIndex('users', 'byEmail', 'alice@example.com');
+   */
+  async findByIndex(
+    tableName: string,
+    indexName: string,
+    value: unknown
+  ): Promise<[string, any][]> {
+    // Validate inputs (throws on error)
+    validateTableName(tableName);
+    validateIndexName(indexName);
+    this.assertIndexExists(tableName, indexName);
+
+    try {
+      const table = await this.ensureTable(tableName);
+      const keys = table.indexes.get(indexName)?.find(value) || [];
+
+      const result: [string, any][] = [];
+      const expiredKeys: string[] = [];
+
+      for (const key of keys) {
+        const record = table.get(key) as DatabaseRecord;
+        if (this.isExpired(record)) expiredKeys.push(key);
+        else result.push([key, record.value]);
+      }
+
+      if (expiredKeys.length > 0) {
+        for (const expiredKey of expiredKeys) table.delete(expiredKey);
+
+        await this.commit(tableName, expiredKeys);
+      }
+
+      return result;
+    } catch (error) {
+      console.error(
+        `Index lookup failed for ${tableName}:${indexName}:`,
+        error
+      );
+      return [];
+    }
+  }
+
+  /**
+   * @description Drop a secondary index from a table, removing its definition from the system table.
+   *
+   * @param tableName - The table of the index
+   * @param indexName - The name of the index
+   * @returns True if the index was dropped, false if it didn't exist
+   *
+   * @example
+   * await db.dropIndex('users', 'byCity');
+   */
+  async dropIndex(tableName: string, indexName: string): Promise<boolean> {
+    // Validate inputs (throws on error)
+    validateTableName(tableName);
+    validateIndexName(indexName);
+
+    const definitions = this.indexDefinitions.get(tableName);
+    const definition = definitions?.get(indexName);
+    if (!definitions || !definition) return false;
+
+    definitions.delete(indexName);
+    if (definitions.size === 0) this.indexDefinitions.delete(tableName);
+    this.data.get(tableName)?.indexes.delete(indexName);
+
+    if (typeof definition.field === 'string') await this.persistIndexes();
+
+    return true;
+  }
+
+  /**
+   * @description Query the records of a table with a filter, and optionally project, sort and
+   * page through the matches. When the filter compares a field by equality (a value, `$eq` or `$in`)
+   * and a secondary index exists on that field, only the records it points to are visited.
+   *
+   * Operators: `$eq`, `$ne`, `$in`, `$gt`, `$gte`, `$lt`, `$lte`, `$exists` and `$regex` on fields,
+   * and `$and` and `$or` to combine filters. Missing fields only match `$ne` and `$exists: false`.
+   * Range operators only compare numbers with numbers and strings with strings.
+   *
+   * @param tableName - The table to query
+   * @param options - `where`, `select`, `orderBy`, `limit` and `offset`
+   * @returns Array of [key, value] tuples, in key order unless sorted with `orderBy`
+   * @throws If the options are invalid, such as an unknown operator
+   *
+   * @example
+   * const adults = await db.query('users', {
+   *   where: { age: { $gte: 18 }, 'address.city': 'Oslo' },
+   *   select: ['name', 'email'],
+   *   orderBy: { createdAt: 'desc' },
+   *   limit: 20
+   * });
+   *
+   * @example
+   * const staff = await db.query('users', {
+   *   where: { $or: [{ role: { $in: ['admin', 'editor'] } }, { email: { $regex: '@example\\.com$' } }] }
+   * });
+   */
+  async query(
+    tableName: string,
+    options: QueryOptions = {}
+  ): Promise<[string, any][]> {
+    // Validate inputs (throws on error)
+    validateTableName(tableName);
+    validateQueryOptions(options);
+
+    try {
+      const table = await this.ensureTable(tableName);
+      const {
+        where = {},
+        select,
+        orderBy = {},
+        limit = Number.POSITIVE_INFINITY,
+        offset = 0
+      } = options;
+      const sortFields = Object.entries(orderBy);
+
+      // Without sorting, matching stops once the requested page is complete
+      const maxMatches =
+        sortFields.length === 0 ? offset + limit : Number.POSITIVE_INFINITY;
+
+      const matches: [string, DatabaseRecord][] = [];
+      const expiredKeys: string[] = [];
+
+      for (const key of this.getQueryCandidates(tableName, table, where)) {
+        if (matches.length >= maxMatches) break;
+
+        const record = table.get(key) as DatabaseRecord;
+        if (this.isExpired(record)) expiredKeys.push(key);
+        else if (matchesFilter(record.value, where))
+          matches.push([key, record]);
+      }
+
+      if (expiredKeys.length > 0) {
+        for (const expiredKey of expiredKeys) table.delete(expiredKey);
+
+        await this.commit(tableName, expiredKeys);
+      }
+
+      // Sorting is stable, so ties stay in key order
+      if (sortFields.length > 0)
+        matches.sort(([, a], [, b]) => {
+          for (const [field, direction] of sortFields) {
+            const difference = compareFieldValues(
+              getFieldValue(a.value, field),
+              getFieldValue(b.value, field),
+              direction === 'desc'
+            );
+            if (difference !== 0) return difference;
+          }
+
+          return 0;
+        });
+
+      return matches
+        .slice(offset, offset + limit)
+        .map(([key, { value }]) => [
+          key,
+          select ? projectValue(value, select) : value
+        ]);
+    } catch (error) {
+      console.error(`Query failed for ${tableName}:`, error);
+      return [];
+    }
+  }
+
   /**
    * @description Delete a key from a table with immediate disk persistence.
    *
    * @param tableName - The table to delete from
    * @param key - The key to delete
    * @returns True if deletion succeeded, false if key didn't exist
+   * @throws TableCorruptedError if the table was quarantined as corrupted
    *
    * @example
    * // Delete a key
@@ -299,27 +992,29 @@ export class PikoDB {
     // Validate inputs (throws on error)
     validateTableName(tableName);
     validateKey(key);
+    this.assertWritable();
 
     try {
-      if (!this.data.has(tableName)) await this.loadTable(tableName);
+      const table = await this.ensureWritableTable(tableName);
 
-      const table = this.data.get(tableName);
-      if (!table || !table.has(key)) return false;
+      if (!table.has(key)) return false;
 
       const record = table.get(key);
       if (!record) return false;
 
       if (this.isExpired(record)) {
         table.delete(key);
-        await this.persistTable(tableName);
+        await this.commit(tableName, [key]);
         return false;
       }
 
       table.delete(key);
-      await this.persistTable(tableName);
+      await this.commit(tableName, [key]);
 
       return true;
     } catch (error) {
+      if (error instanceof TableCorruptedError) throw error;
+
       console.error(`Delete failed for ${tableName}:${key}:`, error);
       return false;
     }
@@ -341,10 +1036,7 @@ export class PikoDB {
     validateTableName(tableName);
 
     try {
-      if (!this.data.has(tableName)) await this.loadTable(tableName);
-
-      const table = this.data.get(tableName);
-      if (!table) return 0;
+      const table = await this.ensureTable(tableName);
 
       let size = 0;
       const expiredKeys: string[] = [];
@@ -357,7 +1049,7 @@ export class PikoDB {
       if (expiredKeys.length > 0) {
         for (const expiredKey of expiredKeys) table.delete(expiredKey);
 
-        await this.persistTable(tableName);
+        await this.commit(tableName, expiredKeys);
       }
 
       return size;
@@ -367,6 +1059,62 @@ export class PikoDB {
     }
   }
 
+  /**
+   * @description Get the compression achieved for a table file, as last written or loaded.
+   * Entries still waiting in an append-only log are not included until compaction.
+   *
+   * @param tableName - The table to inspect
+   * @returns The codec, byte counts and ratio, or null if the table has no table file yet
+   *
+   * @example
+   * const db = new PikoDB({ databaseDirectory: './data', compression: 'brotli' });
+   * await db.start();
+   * await db.write('telemetry', 'reading1', { sensor: 'DHT22', temperature: 23.5 });
+   * const stats = await db.getCompressionStats('telemetry');
+   * console.log(`${stats?.codec}: ${stats?.ratio.toFixed(1)}x`);
+   */
+  async getCompressionStats(
+    tableName: string
+  ): Promise<CompressionStats | null> {
+    // Validate inputs (throws on error)
+    validateTableName(tableName);
+
+    try {
+      await this.ensureTable(tableName);
+      return this.getTableCompressionStats(tableName);
+    } catch (error) {
+      console.error(`Get compression stats failed for ${tableName}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * @description Throw if the database was opened in read-only mode, or has lost its directory lock.
+   */
+  private assertWritable(): void {
+    if (this.readOnly) throw new Error('Database is opened in read-only mode');
+
+    this.lock.assertHeld();
+  }
+
+  /**
+   * @description Throw if no dictionary is available for writes under a name.
+   */
+  private assertDictionaryExists(name: string): void {
+    if (!this.dictionaries.has(name))
+      throw new Error(
+        `Dictionary "${name}" not found. Available dictionaries: ${Array.from(this.dictionaries.keys()).join(', ') || 'none'}`
+      );
+  }
+
+  /**
+   * @description Throw if a table was quarantined as corrupted.
+   */
+  private assertTableAvailable(tableName: string): void {
+    const error = this.corruptedTables.get(tableName);
+    if (error) throw error;
+  }
+
   /**
    * @description Check if a record is expired.
    */
@@ -391,10 +1139,7 @@ export class PikoDB {
     validateTableName(tableName);
 
     try {
-      if (!this.data.has(tableName)) await this.loadTable(tableName);
-
-      const table = this.data.get(tableName);
-      if (!table) return 0;
+      const table = await this.ensureTable(tableName);
 
       const expiredKeys: string[] = [];
 
@@ -405,7 +1150,7 @@ export class PikoDB {
       for (const key of expiredKeys) table.delete(key);
 
       if (expiredKeys.length > 0) {
-        await this.persistTable(tableName);
+        await this.commit(tableName, expiredKeys);
       }
 
       return expiredKeys.length;
@@ -428,14 +1173,16 @@ export class PikoDB {
   async cleanupAllExpired(): Promise<number> {
     let totalCleaned = 0;
 
-    for (const tableName of this.data.keys())
+    for (const tableName of this.listTables())
       totalCleaned += await this.cleanupExpired(tableName);
 
     return totalCleaned;
   }
 
   /**
-   * @description Delete an entire table and its disk file.
+   * @description Delete an entire table and its disk file (or shard directory).
+   * This also makes a table that was quarantined as corrupted writable again.
+   * The table is deleted once commits in flight for it have settled, so they never write it back.
    *
    * @param tableName - The table to delete
    * @returns True if deletion succeeded
@@ -448,12 +1195,28 @@ export class PikoDB {
   async deleteTable(tableName: string): Promise<boolean> {
     // Validate inputs (throws on error)
     validateTableName(tableName);
+    this.assertWritable();
 
     try {
-      this.data.delete(tableName);
+      // Once any commit in flight has settled, so it cannot write the table back
+      await this.withTableLock(tableName, async () => {
+        const removal = this.removeTable(tableName);
+
+        // The table is not loaded again until it is gone, so its files are never read back
+        this.deletingTables.set(
+          tableName,
+          removal.then(
+            () => undefined,
+            () => undefined
+          )
+        );
 
-      const filePath = join(this.databaseDirectory, tableName);
-      if (existsSync(filePath)) await unlink(filePath);
+        try {
+          await removal;
+        } finally {
+          this.deletingTables.delete(tableName);
+        }
+      });
 
       return true;
     } catch (error) {
@@ -463,7 +1226,35 @@ export class PikoDB {
   }
 
   /**
-   * @description List all table names currently in memory.
+   * @description Remove a table from memory and disk, holding the table lock.
+   */
+  private async removeTable(tableName: string): Promise<void> {
+    // A load started earlier would put the table back into memory
+    await this.loadingTables.get(tableName)?.catch(() => undefined);
+
+    this.data.delete(tableName);
+    this.unloadedTables.delete(tableName);
+    this.recentlyUsedTables.delete(tableName);
+    this.tableSizes.delete(tableName);
+    this.logSizes.delete(tableName);
+    this.corruptedTables.delete(tableName);
+    this.fileStats.delete(tableName);
+    this.tableShardCounts.delete(tableName);
+    this.dirtyShards.delete(tableName);
+
+    // Removes the table file, or the directory of a sharded table
+    await rm(this.getTablePath(tableName), {
+      recursive: true,
+      force: true
+    });
+
+    const logPath = this.getLogPath(tableName);
+    if (existsSync(logPath)) await unlink(logPath);
+  }
+
+  /**
+   * @description List all table names, including tables on disk that are not loaded
+   * into memory (with `lazyLoad` or after eviction).
    *
    * @returns Array of table names
    *
@@ -473,23 +1264,253 @@ export class PikoDB {
    * const tables = db.listTables(); // ['users', 'products']
    */
   listTables(): string[] {
-    return Array.from(this.data.keys());
+    return [...this.data.keys(), ...this.unloadedTables];
   }
 
   /**
-   * @description Force persistence of all in-memory tables to disk.
+   * @description Export a table as newline-delimited JSON, one record per line with its
+   * version, timestamp, expiration and dictionary name. Values are exported inflated, so
+   * exports can be imported into databases with different dictionaries.
+   * Expired records are skipped. The stream is ended once the export is done.
    *
-   * Note: Write operations already persist immediately. Use this only if needed.
+   * @param tableName - The table to export
+   * @param stream - Writable stream to write the NDJSON lines to
+   * @returns The number of records exported
+   * @throws TableCorruptedError if the table was quarantined as corrupted
    *
    * @example
-   * // Manually flush all tables to disk
-   * await db.flush();
+   * await db.exportTable('users', createWriteStream('./users.ndjson'));
+   * // {"key":"user1","value":{"name":"Alice"},"version":1,"timestamp":1760000000000,"expiration":null}
    */
-  async flush(): Promise<void> {
+  async exportTable(
+    tableName: string,
+    stream: NodeJS.WritableStream
+  ): Promise<number> {
+    // Validate inputs (throws on error)
+    validateTableName(tableName);
+
+    const table = await this.ensureTable(tableName);
+    this.assertTableAvailable(tableName);
+
+    // Snapshot the records, so writes during a slow export do not change its contents
+    const records = Array.from(table).filter(
+      ([, record]) => !this.isExpired(record)
+    );
+
+    await pipeline(Readable.from(this.exportRecords(records)), stream);
+
+    return records.length;
+  }
+
+  /**
+   * @description Import a table from newline-delimited JSON in the format of `exportTable()`.
+   *
+   * Only `key` and `value` are required on each line; a missing version defaults to 1, a missing
+   * timestamp to now and a missing expiration to none. Records keep their dictionary name
+   * only if this database has that dictionary. Expired records are skipped.
+   *
+   * The whole stream is parsed and validated before the table is changed, so an invalid line
+   * leaves the table untouched. All records are then persisted in a single commit.
+   *
+   * @param tableName - The table to import into, created if missing
+   * @param stream - Readable stream of NDJSON lines
+   * @param options - `mode: 'merge'` (default) keeps records not in the import, `mode: 'replace'` removes them
+   * @returns The number of records imported
+   * @throws Error if a line is not a valid record, naming its line number
+   * @throws TableCorruptedError if the table was quarantined as corrupted
+   * @throws UniqueConstraintError if the import would give two records the same value in a unique index
+   *
+   * @example
+   * await db.importTable('users', createReadStream('./users.ndjson'), { mode: 'replace' });
+   */
+  async importTable(
+    tableName: string,
+    stream: NodeJS.ReadableStream,
+    options: ImportOptions = {}
+  ): Promise<number> {
+    const mode = options.mode ?? 'merge';
+
+    // Validate inputs (throws on error)
+    validateTableName(tableName);
+    validateImportMode(mode);
+    this.assertWritable();
+
+    const records: Map<string, DatabaseRecord> = new Map();
+    let lineNumber = 0;
+
+    for await (const line of readLines(stream)) {
+      lineNumber++;
+      if (!line.trim()) continue;
+
+      try {
+        const { key, record } = this.importRecord(JSON.parse(line));
+        if (this.isExpired(record)) records.delete(key);
+        else records.set(key, record);
+      } catch (error) {
+        throw new Error(
+          `Invalid record on line ${lineNumber}: ${error instanceof Error ? error.message : String(error)}`,
+          { cause: error }
+        );
+      }
+    }
+
+    const table = await this.ensureWritableTable(tableName);
+    this.assertUniqueIndexes(
+      tableName,
+      table,
+      Array.from(records),
+      mode === 'replace'
+    );
+
+    const changedKeys = new Set(records.keys());
+
+    if (mode === 'replace') {
+      for (const key of table.keys()) changedKeys.add(key);
+      table.clear();
+    }
+
+    for (const [key, record] of records) table.set(key, record);
+
+    await this.commit(tableName, Array.from(changedKeys));
+
+    return records.size;
+  }
+
+  /**
+   * @description Run schema migrations that have not been applied to this database directory yet,
+   * in the given order. Applied migration ids are recorded in a hidden system table, so each
+   * migration runs once per directory, however often `migrate()` is called.
+   *
+   * A migration transforms every record of its table with `up`, which may be async. Records whose value changes get
+   * their version bumped, and records for which `up` returns `undefined` are deleted. Each table
+   * is migrated atomically: the migrated table is written in full and swapped into place, so a
+   * failing `up` or a crash leaves the table as it was. A crash after the swap but before the
+   * migration is recorded runs it again on the next `migrate()`.
+   * Writes to a table wait while it is migrated, and apply on top of the migrated records.
+   *
+   * With `appVersion` configured, the newest version that migrated the directory is recorded,
+   * and older versions of the application refuse to start on it.
+   *
+   * @param migrations - The migrations of the application, oldest first
+   * @returns The ids of the migrations applied by this call
+   * @throws Error if a migration fails, after applying the migrations before it
+   * @throws TableCorruptedError if a migrated table was quarantined as corrupted
+   * @throws UniqueConstraintError if a migration would give two records the same value in a unique index
+   *
+   * @example
+   * const db = new PikoDB({ databaseDirectory: './data', appVersion: '2.0.0' });
+   * await db.start();
+   * await db.migrate([
+   *   {
+   *     id: '2025-01-split-name',
+   *     table: 'users',
+   *     up: ({ name, ...user }) => {
+   *       const [firstName, lastName] = name.split(' ');
+   *       return { ...user, firstName, lastName };
+   *     }
+   *   }
+   * ]);
+   */
+  async migrate(migrations: Migration[]): Promise<string[]> {
+    // Validate inputs (throws on error)
+    validateMigrations(migrations);
+    this.assertWritable();
+
+    // Migrations run one at a time, holding the lock of the system table
+    return this.withTableLock(SYSTEM_TABLE, async () => {
+      const systemTable = await readSystemTable(this.databaseDirectory);
+      const appliedIds = new Set(systemTable.migrations.map(({ id }) => id));
+      const applied: string[] = [];
+
+      const isNewerAppVersion =
+        this.appVersion !== null &&
+        (systemTable.appVersion === null ||
+          compareVersions(this.appVersion, systemTable.appVersion) > 0);
+      if (isNewerAppVersion) systemTable.appVersion = this.appVersion;
+
+      for (const migration of migrations) {
+        if (appliedIds.has(migration.id)) continue;
+
+        try {
+          await this.migrateTable(migration);
+        } catch (error) {
+          console.error(`Migration ${migration.id} failed:`, error);
+          throw error;
+        }
+
+        systemTable.migrations.push({
+          id: migration.id,
+          table: migration.table,
+          appliedAt: Date.now(),
+          appVersion: this.appVersion
+        });
+        await this.persistSystemTable(systemTable);
+        applied.push(migration.id);
+      }
+
+      if (isNewerAppVersion && applied.length === 0)
+        await this.persistSystemTable(systemTable);
+
+      return applied;
+    });
+  }
+
+  /**
+   * @description Compact a table by folding its append-only log into a fresh table file.
+   * The new table file is written atomically before the log is removed, so a crash
+   * at any point leaves a table that loads to the same data.
+   *
+   * Compaction runs automatically in the background once a log reaches
+   * `compactionThreshold` entries, but can also be triggered manually.
+   *
+   * @param tableName - The table to compact
+   * @throws TableCorruptedError if the table was quarantined as corrupted
+   *
+   * @example
+   * const db = new PikoDB({ databaseDirectory: './data', appendOnly: true });
+   * await db.start();
+   * await db.write('events', 'e1', { type: 'click' });
+   * await db.compact('events'); // Log is now folded into the table file
+   */
+  async compact(tableName: string): Promise<void> {
+    // Validate inputs (throws on error)
+    validateTableName(tableName);
+    this.assertWritable();
+
+    await this.ensureTable(tableName);
+    this.assertTableAvailable(tableName);
+
+    await this.withTableLock(tableName, async () => {
+      // Table may have been deleted while waiting for the lock
+      if (!this.data.has(tableName)) return;
+
+      await this.persistTable(tableName);
+
+      const logPath = this.getLogPath(tableName);
+      if (existsSync(logPath)) await unlink(logPath);
+
+      this.logSizes.set(tableName, 0);
+    });
+  }
+
+  /**
+   * @description Force persistence of all in-memory tables to disk.
+   * In append-only mode this also compacts every table log.
+   * Tables quarantined as corrupted are skipped.
+   *
+   * Note: Write operations already persist immediately. Use this only if needed.
+   *
+   * @example
+   * // Manually flush all tables to disk
+   * await db.flush();
+   */
+  async flush(): Promise<void> {
+    this.assertWritable();
+
     try {
-      const operations = Array.from(this.data.keys()).map((tableName) =>
-        this.persistTable(tableName)
-      );
+      const operations = Array.from(this.data.keys())
+        .filter((tableName) => !this.corruptedTables.has(tableName))
+        .map((tableName) => this.compact(tableName));
 
       await Promise.all(operations);
     } catch (error) {
@@ -499,7 +1520,199 @@ export class PikoDB {
   }
 
   /**
-   * @description Close the database by flushing all data to disk.
+   * @description Re-encrypt all tables with a new key. This also enables encryption
+   * for a database that was not encrypted before.
+   *
+   * Every table is written to a temp file with the new key before any of them is renamed
+   * into place, and append-only logs are folded into the new table files. Writes wait
+   * until the rotation is done, and tables created meanwhile are re-encrypted too. If the
+   * process crashes while renaming, some tables may still use the old key: pass it in
+   * `encryption.previousKeys` to read them.
+   * Tables quarantined as corrupted are skipped.
+   *
+   * @param newKey - The new 32-byte AES-256 key
+   *
+   * @example
+   * const newKey = randomBytes(32);
+   * await db.rotateEncryptionKey(newKey);
+   * await saveKey(newKey); // Store the new key before discarding the old one
+   */
+  async rotateEncryptionKey(newKey: Buffer): Promise<void> {
+    // Validate inputs (throws on error)
+    validateEncryptionKey(newKey);
+    this.assertWritable();
+
+    const stagedTables: StagedTable[] = [];
+    let isKeySet = false;
+
+    // Tables created while staging are locked and staged too, until no new table is left
+    const rotate = async (lockedTables: string[]): Promise<void> => {
+      const tableNames = this.listTables().filter(
+        (tableName) => !lockedTables.includes(tableName)
+      );
+
+      if (tableNames.length > 0)
+        return this.withTableLocks(tableNames, async () => {
+          for (const tableName of tableNames) {
+            // Table may have been deleted while waiting for the lock
+            if (
+              !this.data.has(tableName) &&
+              !this.unloadedTables.has(tableName)
+            )
+              continue;
+
+            const table = await this.ensureTable(tableName);
+            if (this.corruptedTables.has(tableName)) continue;
+
+            stagedTables.push(await this.stageTable(tableName, table, newKey));
+          }
+
+          await rotate([...lockedTables, ...tableNames]);
+        });
+
+      // Nothing was awaited since listing the tables, so any table persisted from now on
+      // (including one created later) uses the new key
+      this.setEncryptionKey(newKey);
+      isKeySet = true;
+
+      for (const stagedTable of stagedTables) {
+        const { tableName } = stagedTable;
+        await this.installStagedTable(stagedTable);
+
+        const logPath = this.getLogPath(tableName);
+        if (existsSync(logPath)) await unlink(logPath);
+        this.logSizes.set(tableName, 0);
+      }
+    };
+
+    try {
+      await rotate([]);
+    } catch (error) {
+      if (isKeySet) throw error;
+
+      for (const { tempPath } of stagedTables)
+        await rm(tempPath, { recursive: true, force: true });
+
+      console.error('Encryption key rotation failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * @description Create a consistent point-in-time backup of all tables while the database stays online.
+   *
+   * The files of every table (table files, shard directories and append-only logs), the
+   * system table of applied migrations and index definitions, and the dictionary catalog are copied
+   * while holding all table locks, so the backup holds exactly the writes persisted before it
+   * started. Writes made meanwhile are applied in memory as usual and persisted once the copy
+   * is done. The copies are then checksummed and forced to physical storage, and a `.backup.json`
+   * manifest is written last to mark the backup complete.
+   * Tables quarantined as corrupted are skipped.
+   *
+   * @param targetDirectory - Directory to create the backup in: empty or missing, and outside the database directory
+   *
+   * @example
+   * await db.backup(`./backups/${Date.now()}`);
+   */
+  async backup(targetDirectory: string): Promise<void> {
+    // Validate inputs (throws on error)
+    validateBackupDirectory(targetDirectory, this.databaseDirectory);
+    this.assertWritable();
+
+    if (existsSync(targetDirectory) && readdirSync(targetDirectory).length > 0)
+      throw new Error(`Backup directory "${targetDirectory}" is not empty`);
+
+    const tableNames = this.listTables().filter(
+      (tableName) => !this.corruptedTables.has(tableName)
+    );
+    const tables: string[] = [];
+    const paths: string[] = [];
+    let createdAt = 0;
+
+    try {
+      await mkdir(targetDirectory, { recursive: true });
+
+      // The system table is locked first and the dictionary catalog last, like in migrations and commits
+      const lockNames = [SYSTEM_TABLE, ...tableNames, DICTIONARY_CATALOG];
+
+      await this.withTableLocks(lockNames, async () => {
+        createdAt = Date.now();
+
+        for (const tableName of tableNames) {
+          const tablePaths = await this.copyTableFiles(
+            tableName,
+            targetDirectory
+          );
+          if (tablePaths.length > 0) tables.push(tableName);
+          paths.push(...tablePaths);
+        }
+
+        for (const file of [SYSTEM_TABLE, DICTIONARY_CATALOG]) {
+          const filePath = join(this.databaseDirectory, file);
+          if (!existsSync(filePath)) continue;
+
+          await copyFile(filePath, join(targetDirectory, file));
+          paths.push(file);
+        }
+      });
+
+      const files: BackupFile[] = [];
+      for (const path of paths)
+        files.push(await checksumFile(targetDirectory, path));
+      await this.syncFileDirectories(targetDirectory, paths);
+
+      await writeBackupManifest(targetDirectory, {
+        version: BACKUP_VERSION,
+        createdAt,
+        tables,
+        files
+      });
+      await this.syncDirectory(targetDirectory);
+    } catch (error) {
+      console.error('Backup failed:', error);
+      await rm(targetDirectory, { recursive: true, force: true });
+      throw error;
+    }
+  }
+
+  /**
+   * @description Restore a backup made with `backup()` into a database directory, which may be
+   * the directory it was made from or a fresh one.
+   *
+   * The backup is verified against the checksums in its manifest before anything is touched,
+   * and again once copied into a staging directory next to the database. Only then are the
+   * tables, logs and leftover files of the database directory replaced by the restored ones.
+   * No instance may have the directory open meanwhile. If a restore is interrupted, run it again.
+   *
+   * @param backupDirectory - Directory of a backup made with `backup()`
+   * @param databaseDirectory - Database directory to restore into, created if missing
+   * @throws DatabaseLockedError if any instance has the database directory open
+   * @throws Error if the backup is incomplete or fails verification
+   *
+   * @example
+   * await PikoDB.restore('./backups/1760000000000', './data');
+   * const db = new PikoDB({ databaseDirectory: './data' });
+   * await db.start();
+   */
+  static async restore(
+    backupDirectory: string,
+    databaseDirectory: string
+  ): Promise<void> {
+    // Validate inputs (throws on error)
+    validateBackupDirectory(backupDirectory, databaseDirectory);
+
+    const manifest = await readBackupManifest(backupDirectory);
+    await verifyBackup(backupDirectory, manifest);
+
+    await new PikoDB({ databaseDirectory }).installBackup(
+      backupDirectory,
+      manifest
+    );
+  }
+
+  /**
+   * @description Close the database by flushing all data to disk and releasing the directory lock.
+   * An instance that lost its lock to another process releases it without writing anything.
    *
    * Always call this before your application exits to ensure data persistence.
    *
@@ -510,13 +1723,24 @@ export class PikoDB {
    * await db.close(); // Always close when done
    */
   async close(): Promise<void> {
-    await this.flush();
+    try {
+      // Without its lock, the directory may already be written by another process
+      if (!this.readOnly && !this.lock.isLost()) {
+        await this.flush();
+        await this.persistDictionaryCatalog();
+      }
+    } finally {
+      await this.lock.release();
+    }
   }
 
   /**
    * @description Add or update a dictionary for compression after database instantiation.
    * If a dictionary with the same name already exists, it will be updated.
    *
+   * Every change is stored as a new version in the dictionary catalog, written before any record
+   * encoded with it, so records written with earlier versions are still read back correctly.
+   *
    * @param name - The name to identify this dictionary
    * @param dictionary - The dictionary configuration (provide either deflate or inflate)
    * @throws If dictionary is invalid (neither deflate nor inflate, or both provided)
@@ -549,11 +1773,61 @@ export class PikoDB {
    */
   addDictionary(name: string, dictionary: Dictionary): void {
     const processed = processDictionary(dictionary);
-    this.dictionaries.set(name, processed);
+    this.setDictionary(name, processed);
+  }
+
+  /**
+   * @description Replace an existing dictionary with a new version. Records written with earlier
+   * versions are read back correctly either way; with `reencode`, every record encoded with the
+   * dictionary is also rewritten with the new version, one table at a time, each swapped
+   * into place atomically.
+   *
+   * @param name - The name of the dictionary to update
+   * @param dictionary - The new dictionary configuration (provide either deflate or inflate)
+   * @param options - `reencode: true` rewrites the records encoded with the dictionary
+   * @returns The number of records re-encoded
+   * @throws If the dictionary does not exist or is invalid
+   *
+   * @example
+   * await db.updateDictionary(
+   *   'sensors',
+   *   { deflate: { sensor: 's', temperature: 't', humidity: 'h' } },
+   *   { reencode: true }
+   * );
+   */
+  async updateDictionary(
+    name: string,
+    dictionary: Dictionary,
+    options: UpdateDictionaryOptions = {}
+  ): Promise<number> {
+    // Validate inputs (throws on error)
+    const processed = processDictionary(dictionary);
+    this.assertDictionaryExists(name);
+    if (options.reencode) this.assertWritable();
+
+    this.setDictionary(name, processed);
+
+    if (!options.reencode) return 0;
+
+    let reencodedRecords = 0;
+
+    for (const tableName of this.listTables()) {
+      if (this.corruptedTables.has(tableName)) continue;
+
+      reencodedRecords += await this.reencodeRecords(
+        tableName,
+        name,
+        (record) => record.dictionaryName === name
+      );
+    }
+
+    return reencodedRecords;
   }
 
   /**
-   * @description Remove a dictionary by name.
+   * @description Remove a dictionary by name, so it can no longer be used for writes.
+   * Its versions stay in the dictionary catalog to read existing records, which are
+   * stored without it the next time they are written.
    *
    * @param name - The name of the dictionary to remove
    * @returns True if dictionary was removed, false if it didn't exist
@@ -562,7 +1836,10 @@ export class PikoDB {
    * db.removeDictionary('sensors');
    */
   removeDictionary(name: string): boolean {
-    return this.dictionaries.delete(name);
+    const isRemoved = this.dictionaries.delete(name);
+    if (isRemoved) this.isDictionaryCatalogDirty = true;
+
+    return isRemoved;
   }
 
   /**
@@ -579,139 +1856,1850 @@ export class PikoDB {
   }
 
   /**
-   * @description Load a table from disk into memory.
+   * @description Move every record of a table onto a dictionary, or off dictionaries with `null`.
+   * The table is rewritten in full and swapped into place atomically.
+   *
+   * @param tableName - The table to re-encode
+   * @param dictionaryName - The dictionary to encode all records with, or null for none
+   * @returns The number of records re-encoded
+   * @throws If the dictionary does not exist
+   * @throws TableCorruptedError if the table was quarantined as corrupted
+   *
+   * @example
+   * db.addDictionary('sensors', { deflate: { sensor: 's', temperature: 't' } });
+   * await db.reencodeTable('readings', 'sensors');
+   *
+   * @example
+   * await db.reencodeTable('readings', null); // Store all records without a dictionary
    */
-  private async loadTable(tableName: string): Promise<void> {
-    const filePath = join(this.databaseDirectory, tableName);
+  async reencodeTable(
+    tableName: string,
+    dictionaryName: string | null
+  ): Promise<number> {
+    // Validate inputs (throws on error)
+    validateTableName(tableName);
+    if (dictionaryName !== null) this.assertDictionaryExists(dictionaryName);
+    this.assertWritable();
+
+    return this.reencodeRecords(
+      tableName,
+      dictionaryName ?? undefined,
+      () => true
+    );
+  }
 
-    if (!existsSync(filePath)) {
-      this.data.set(tableName, new Map());
-      return;
-    }
+  /**
+   * @description Suggest a dictionary for a table by counting the keys of all its values,
+   * at every nesting level. Keys are ranked by occurrences × length, and the highest ranked
+   * get the shortest codes. Codes never collide with each other or with keys in the table.
+   *
+   * The savings are projected on the records as written to table files, before whole-file
+   * compression, by comparing them as stored now with all of them encoded with the suggestion.
+   * The dictionary name each record then refers to is not counted.
+   *
+   * @param tableName - The table to analyze
+   * @param options - `minOccurrences` (default 2) and `maxEntries` (default 100)
+   * @returns The suggested dictionary with the current, projected and saved bytes
+   *
+   * @example
+   * const { dictionary, savedBytes } = await db.suggestDictionary('telemetry');
+   * if (savedBytes > 100_000) {
+   *   db.addDictionary('telemetry', dictionary);
+   *   await db.reencodeTable('telemetry', 'telemetry');
+   * }
+   */
+  async suggestDictionary(
+    tableName: string,
+    options: SuggestDictionaryOptions = {}
+  ): Promise<DictionarySuggestion> {
+    const minOccurrences = options.minOccurrences ?? 2;
+    const maxEntries = options.maxEntries ?? 100;
 
-    try {
-      const buffer = await readFile(filePath);
+    // Validate inputs (throws on error)
+    validateTableName(tableName);
+    validateSuggestionOptions(minOccurrences, maxEntries);
+
+    const table = await this.ensureTable(tableName);
+    const records = Array.from(table).filter(
+      ([, record]) => !this.isExpired(record)
+    );
+
+    const counts: Map<string, number> = new Map();
+    for (const [, record] of records) countKeys(record.value, counts);
+
+    const deflate = suggestMapping(counts, minOccurrences, maxEntries);
+    const currentBytes = this.getEncodedBytes(records);
+    const projectedBytes = this.getEncodedBytes(
+      records,
+      processDictionary({ deflate })
+    );
+
+    return {
+      dictionary: { deflate },
+      currentBytes,
+      projectedBytes,
+      savedBytes: currentBytes - projectedBytes
+    };
+  }
 
-      if (buffer.length === 0) {
-        this.data.set(tableName, new Map());
-        return;
+  /**
+   * @description Get a table from memory, loading it from disk if needed.
+   * Concurrent loads of the same table share a single read, and a table being deleted
+   * is only loaded once its deletion has settled.
+   */
+  private async ensureTable(
+    tableName: string
+  ): Promise<SortedMap<DatabaseRecord>> {
+    let table = this.data.get(tableName);
+
+    while (!table) {
+      // Wait for a deletion in progress instead of reading the files it removes
+      let loading =
+        this.deletingTables.get(tableName) || this.loadingTables.get(tableName);
+
+      if (!loading) {
+        loading = this.loadTable(tableName).finally(() =>
+          this.loadingTables.delete(tableName)
+        );
+        this.loadingTables.set(tableName, loading);
       }
 
-      const tableData = this.deserializeTable(buffer);
-      this.data.set(tableName, tableData);
-    } catch (error) {
-      console.error(`Failed to load table ${tableName}:`, error);
-      this.data.set(tableName, new Map());
+      await loading;
+      table = this.data.get(tableName);
     }
+
+    this.recentlyUsedTables.delete(tableName);
+    this.recentlyUsedTables.add(tableName);
+
+    this.scheduleEviction();
+
+    return table;
   }
 
   /**
-   * @description Persist a table to disk using atomic writes.
-   * Optionally uses fsync for guaranteed durability.
+   * @description Get a table to change in memory, once any migration of it has finished.
+   * Migrations swap in records migrated from a snapshot, which would drop changes made meanwhile.
    */
-  private async persistTable(tableName: string): Promise<void> {
-    const table = this.data.get(tableName);
-    if (!table) return;
+  private async ensureWritableTable(
+    tableName: string
+  ): Promise<SortedMap<DatabaseRecord>> {
+    let table = await this.ensureTable(tableName);
 
-    const buffer = this.serializeTable(table);
-    const filePath = join(this.databaseDirectory, tableName);
+    let migration = this.migratingTables.get(tableName);
 
-    const tempPath = `${filePath}.tmp.${Date.now()}.${Math.random().toString(36).substring(7)}`;
+    while (migration) {
+      await migration;
+      table = await this.ensureTable(tableName);
+      migration = this.migratingTables.get(tableName);
+    }
+
+    this.assertTableAvailable(tableName);
+
+    return table;
+  }
+
+  /**
+   * @description Load a table from disk into memory.
+   * Corrupted files are quarantined rather than loaded or overwritten.
+   * A corrupted shard quarantines the whole directory of its sharded table.
+   */
+  private async loadTable(tableName: string): Promise<void> {
+    let currentPath = this.getTablePath(tableName);
 
     try {
-      await writeFile(tempPath, buffer);
+      const tableData: SortedMap<DatabaseRecord> = new SortedMap();
+      const fileStats: Map<number, CompressionStats> = new Map();
+      let shardCount: number | undefined;
 
-      // fsync: Force data to physical storage before rename
-      if (this.useFsync) {
-        const fd = await open(tempPath, 'r+');
-        try {
-          await fd.sync();
-        } finally {
-          await fd.close();
-        }
+      // A single table file, or every shard file of a sharded table
+      for (const [index, filePath] of this.getTableFiles(tableName)) {
+        const file = await this.readTableFile(filePath, tableData);
+        if (!file) continue;
+
+        fileStats.set(index, file.stats);
+        shardCount = file.shardCount;
       }
 
-      await rename(tempPath, filePath);
+      currentPath = this.getLogPath(tableName);
+      const logBytes = await this.replayLog(tableName, tableData);
 
-      // fsync: Force directory entry to physical storage
-      if (this.useFsync) {
-        const dirPath = dirname(filePath);
-        const dirFd = openSync(dirPath, 'r');
-        try {
-          closeSync(dirFd);
-        } catch (_) {
-          // Directory fsync not supported on all platforms (e.g., Windows)
-          // This is acceptable - file fsync is the critical part
-        }
-      }
+      this.setIndexes(tableName, tableData);
+      this.data.set(tableName, tableData);
+      this.fileStats.set(tableName, fileStats);
+      if (shardCount === undefined) this.tableShardCounts.delete(tableName);
+      else this.tableShardCounts.set(tableName, shardCount);
+      this.tableSizes.set(
+        tableName,
+        (this.getTableCompressionStats(tableName)?.uncompressedBytes || 0) +
+          logBytes
+      );
+      this.unloadedTables.delete(tableName);
     } catch (error) {
-      try {
-        await unlink(tempPath);
-      } catch (_cleanupError) {
-        // Ignore cleanup errors
-      }
-      throw error;
+      console.error(`Failed to load table ${tableName}:`, error);
+
+      // Missing keys and dictionaries are configuration errors, and filesystem errors (e.g. permissions)
+      // are not corruption: keep the table unloaded and its files intact, so nothing overwrites them
+      if (
+        error instanceof EncryptionKeyError ||
+        error instanceof DictionaryNotFoundError ||
+        (error as NodeJS.ErrnoException).code
+      )
+        throw error;
+
+      const tableData: SortedMap<DatabaseRecord> = new SortedMap();
+      this.setIndexes(tableName, tableData);
+      this.data.set(tableName, tableData);
+      this.tableSizes.set(tableName, 0);
+      this.unloadedTables.delete(tableName);
+
+      await this.quarantineTable(tableName, currentPath, error);
     }
   }
 
   /**
-   * @description Serialize table data to buffer for disk storage.
-   * Uses short keys for metadata (d, v, t, x, n).
-   * Optionally compresses user data if dictionary provided.
+   * @description Move a corrupted table file (or log) aside and mark the table unavailable for writes,
+   * so the next write can never overwrite the corrupted data.
+   * Quarantined files are hidden and named `.<file>.corrupt.<timestamp>`.
    */
-  private serializeTable(table: Map<string, DatabaseRecord>): Buffer {
-    const data = Array.from(table.entries()).map(([key, record]) => {
-      const dictionary = record.dictionaryName
-        ? this.dictionaries.get(record.dictionaryName)
-        : undefined;
-
-      // Directly create compressed record with short keys
-      const compressed: any = {
-        d: dictionary
-          ? transformValue(record.value, dictionary.deflate)
-          : record.value,
-        v: record.version,
-        t: record.timestamp,
-        x: record.expiration
-      };
+  private async quarantineTable(
+    tableName: string,
+    corruptedPath: string,
+    cause: unknown
+  ): Promise<void> {
+    let quarantinePath: string | null = null;
+
+    if (!this.readOnly) {
+      const fileName = basename(corruptedPath).replace(/^\./, '');
+      quarantinePath = join(
+        this.databaseDirectory,
+        `.${fileName}.corrupt.${Date.now()}`
+      );
+      await rename(corruptedPath, quarantinePath);
+    }
 
-      // Only include dictionary name if it exists
-      if (record.dictionaryName) compressed.n = record.dictionaryName;
+    const error = new TableCorruptedError(tableName, quarantinePath, cause);
+    this.corruptedTables.set(tableName, error);
 
-      return [key, compressed];
-    });
+    this.onCorruption?.(error);
 
-    return Buffer.from(JSON.stringify(data), 'utf8');
+    if (this.failOnCorruption) throw error;
   }
 
   /**
-   * @description Deserialize buffer data back to table map.
-   * Directly maps short keys (d, v, t, x, n) to full property names. Optionally decompresses user data if dictionary provided.
+   * @description Evict least recently used tables once the memory budget is exceeded.
+   * Runs after pending microtasks, so a table is never evicted between being loaded
+   * and the operation that loaded it registering its commit.
    */
-  private deserializeTable(buffer: Buffer): Map<string, DatabaseRecord> {
-    const data = JSON.parse(buffer.toString('utf8'));
+  private scheduleEviction(): void {
+    if (this.evictionScheduled) return;
+    if (
+      this.maxLoadedTables === Number.POSITIVE_INFINITY &&
+      this.maxMemoryBytes === Number.POSITIVE_INFINITY
+    )
+      return;
 
-    // Directly map short keys to DatabaseRecord structure
-    const records = data.map(([key, compressed]: [string, any]) => {
-      const dictionaryName = compressed.n;
-      const dictionary = dictionaryName
-        ? this.dictionaries.get(dictionaryName)
-        : undefined;
+    this.evictionScheduled = true;
 
-      return [
-        key,
-        {
-          value: dictionary
-            ? transformValue(compressed.d, dictionary.inflate)
-            : compressed.d,
-          version: compressed.v,
-          timestamp: compressed.t,
-          expiration: compressed.x,
-          dictionaryName: dictionaryName || undefined
-        }
-      ];
+    setImmediate(() => {
+      this.evictionScheduled = false;
+      this.evictTables();
     });
+  }
+
+  /**
+   * @description Evict clean tables, least recently used first, until the memory budget is met.
+   * Tables with pending commits, locked operations or loads in flight are never evicted,
+   * and neither is the most recently used table.
+   */
+  private evictTables(): void {
+    let memoryBytes = 0;
+    for (const tableName of this.data.keys())
+      memoryBytes += this.tableSizes.get(tableName) || 0;
+
+    const candidates = Array.from(this.recentlyUsedTables).slice(0, -1);
+
+    for (const tableName of candidates) {
+      if (
+        this.data.size <= this.maxLoadedTables &&
+        memoryBytes <= this.maxMemoryBytes
+      )
+        return;
+
+      if (
+        this.pendingCommits.has(tableName) ||
+        this.tableLocks.has(tableName) ||
+        this.loadingTables.has(tableName)
+      )
+        continue;
 
-    return new Map(records);
+      this.data.delete(tableName);
+      this.recentlyUsedTables.delete(tableName);
+      this.unloadedTables.add(tableName);
+      memoryBytes -= this.tableSizes.get(tableName) || 0;
+    }
+  }
+
+  /**
+   * @description Replay the append-only log of a table on top of its loaded data.
+   * A torn final entry (from a crash mid-append) is discarded and truncated away.
+   * Returns the number of log bytes replayed.
+   */
+  private async replayLog(
+    tableName: string,
+    table: Map<string, DatabaseRecord>
+  ): Promise<number> {
+    const logPath = this.getLogPath(tableName);
+
+    if (!existsSync(logPath)) {
+      this.logSizes.set(tableName, 0);
+      return 0;
+    }
+
+    const buffer = await readFile(logPath);
+    const completeLength = buffer.lastIndexOf('\n') + 1;
+    const lines = buffer.toString('utf8', 0, completeLength).split('\n');
+
+    let entries = 0;
+
+    for (const line of lines) {
+      if (!line) continue;
+
+      const [key, compressed] = JSON.parse(this.decodeLogEntry(line));
+
+      if (compressed) table.set(key, this.decompressRecord(compressed));
+      else table.delete(key);
+
+      entries++;
+    }
+
+    if (completeLength < buffer.length && !this.readOnly)
+      await truncate(logPath, completeLength);
+
+    this.logSizes.set(tableName, entries);
+
+    return completeLength;
+  }
+
+  /**
+   * @description Persist changes to the given keys of a table.
+   *
+   * Commits are grouped per table: changes that arrive while a commit is in flight
+   * are batched into the next one, which resolves only once it has hit disk.
+   */
+  private commit(tableName: string, keys: string[]): Promise<void> {
+    // Read-only instances only drop expired records from memory
+    if (this.readOnly) return Promise.resolve();
+
+    // Never overwrite the quarantined data of a corrupted table
+    if (this.corruptedTables.has(tableName)) return Promise.resolve();
+
+    this.tableGenerations.set(
+      tableName,
+      (this.tableGenerations.get(tableName) || 0) + 1
+    );
+
+    const pending = this.pendingCommits.get(tableName);
+
+    if (pending) {
+      for (const key of keys) pending.keys.add(key);
+      return pending.promise;
+    }
+
+    const changedKeys = new Set(keys);
+
+    const promise = this.withTableLock(tableName, async () => {
+      // Changes arriving from now on belong to the next commit
+      this.pendingCommits.delete(tableName);
+
+      // Never write to a directory whose lock was taken over
+      this.lock.assertHeld();
+
+      if (this.appendOnly) await this.appendToLog(tableName, changedKeys);
+      else await this.persistTable(tableName, changedKeys);
+    });
+
+    this.pendingCommits.set(tableName, { keys: changedKeys, promise });
+
+    return promise;
+  }
+
+  /**
+   * @description Append the current state of the given keys to the table log.
+   */
+  private async appendToLog(
+    tableName: string,
+    keys: Set<string>
+  ): Promise<void> {
+    const table = this.data.get(tableName);
+    if (!table) return;
+
+    await this.persistDictionaryCatalog();
+
+    // One entry per changed key: [key, record] for writes, [key] for deletes
+    const entries = Array.from(keys).map((key) => {
+      const record = table.get(key);
+      const entry = JSON.stringify(
+        record ? [key, this.compressRecord(record)] : [key]
+      );
+      return `${this.encodeLogEntry(entry)}\n`;
+    });
+
+    const content = entries.join('');
+
+    const durability = this.getTableDurability(tableName);
+    const logPath = this.getLogPath(tableName);
+    const isNewLog = !existsSync(logPath);
+
+    const fd = await open(logPath, 'a');
+    try {
+      await fd.write(content);
+      if (this.shouldSyncFiles(durability)) await fd.sync();
+    } finally {
+      await fd.close();
+    }
+
+    // fsync+dir: Force the entry of a new log file to physical storage
+    if (isNewLog && durability === 'fsync+dir')
+      await this.syncDirectory(this.databaseDirectory);
+
+    this.tableSizes.set(
+      tableName,
+      (this.tableSizes.get(tableName) || 0) + Buffer.byteLength(content)
+    );
+
+    const logSize = (this.logSizes.get(tableName) || 0) + entries.length;
+    this.logSizes.set(tableName, logSize);
+
+    if (logSize >= this.compactionThreshold) this.scheduleCompaction(tableName);
+  }
+
+  /**
+   * @description Compact a table in the background, at most once at a time per table.
+   */
+  private scheduleCompaction(tableName: string): void {
+    if (this.compactionsScheduled.has(tableName)) return;
+
+    this.compactionsScheduled.add(tableName);
+
+    this.compact(tableName)
+      .catch((error) =>
+        console.error(`Compaction failed for ${tableName}:`, error)
+      )
+      .finally(() => this.compactionsScheduled.delete(tableName));
+  }
+
+  /**
+   * @description Run an operation exclusively for a table, after any earlier
+   * operations on the same table have settled. This per-table mutex is what keeps
+   * persisted snapshots, log appends and compactions in strict order.
+   */
+  private async withTableLock<T>(
+    tableName: string,
+    operation: () => Promise<T>
+  ): Promise<T> {
+    const previous = this.tableLocks.get(tableName) || Promise.resolve();
+    const current = previous.then(operation);
+    const settled = current.then(
+      () => undefined,
+      () => undefined
+    );
+
+    this.tableLocks.set(tableName, settled);
+
+    try {
+      return await current;
+    } finally {
+      if (this.tableLocks.get(tableName) === settled)
+        this.tableLocks.delete(tableName);
+    }
+  }
+
+  /**
+   * @description Run an operation holding the locks of several tables at once.
+   */
+  private async withTableLocks<T>(
+    tableNames: string[],
+    operation: () => Promise<T>
+  ): Promise<T> {
+    const [tableName, ...rest] = tableNames;
+    if (tableName === undefined) return operation();
+
+    return this.withTableLock(tableName, () =>
+      this.withTableLocks(rest, operation)
+    );
+  }
+
+  /**
+   * @description Get the path of the append-only log for a table.
+   * Logs are hidden files, which can never collide with a valid table name.
+   */
+  private getLogPath(tableName: string): string {
+    return join(this.databaseDirectory, `.${tableName}.log`);
+  }
+
+  /**
+   * @description Get the table name from a log file name, or null if not a log file.
+   */
+  private getTableNameFromLogFile(file: string): string | null {
+    const match = /^\.(.+)\.log$/.exec(file);
+    return match ? match[1] : null;
+  }
+
+  /**
+   * @description Persist a table to disk using atomic writes.
+   * Optionally uses fsync for guaranteed durability.
+   *
+   * Persists are serialized per table by the table lock. As a second line of defense,
+   * every snapshot carries the table generation it was taken at, and a snapshot older
+   * than the one already on disk is discarded instead of renamed over it.
+   *
+   * Sharded tables already on disk with the configured shard count only rewrite the shards
+   * holding the changed keys. Any other table is written in full and swapped into place.
+   * With the `none` durability level, table files are overwritten in place instead.
+   */
+  private async persistTable(
+    tableName: string,
+    keys?: Set<string>
+  ): Promise<void> {
+    const table = this.data.get(tableName);
+    if (!table) return;
+
+    const shardCount = this.getTableShardCount(tableName);
+    const durability = this.getTableDurability(tableName);
+    const tablePath = this.getTablePath(tableName);
+
+    if (shardCount > 0 && this.tableShardCounts.get(tableName) === shardCount)
+      return this.persistShards(tableName, table, shardCount, keys);
+
+    // none: Overwrite the table file in place, without the safety of a temp file
+    if (
+      durability === 'none' &&
+      shardCount === 0 &&
+      !this.isDirectory(tablePath)
+    ) {
+      const generation = this.tableGenerations.get(tableName) || 0;
+      const stats = await this.writeTableFile(
+        tablePath,
+        tableName,
+        Array.from(table),
+        0
+      );
+
+      this.setPersistedTable(tableName, generation, 0, new Map([[0, stats]]));
+      return;
+    }
+
+    const stagedTable = await this.stageTable(tableName, table);
+
+    if (this.isStaleSnapshot(tableName, stagedTable.generation)) {
+      await rm(stagedTable.tempPath, { recursive: true, force: true });
+      return;
+    }
+
+    await this.installStagedTable(stagedTable);
+  }
+
+  /**
+   * @description Rewrite the changed shards of a sharded table in place, each with an atomic rename.
+   * Shards stay dirty until written, so a failed persist is retried by the next one.
+   * Without keys, all shards are rewritten if the table has log entries (which may touch
+   * any shard), and otherwise only shards left dirty by earlier failures.
+   */
+  private async persistShards(
+    tableName: string,
+    table: Map<string, DatabaseRecord>,
+    shardCount: number,
+    keys?: Set<string>
+  ): Promise<void> {
+    const dirtyShards = this.dirtyShards.get(tableName) || new Set<number>();
+    this.dirtyShards.set(tableName, dirtyShards);
+
+    if (keys) {
+      for (const key of keys) dirtyShards.add(getShardIndex(key, shardCount));
+    } else if ((this.logSizes.get(tableName) || 0) > 0) {
+      for (let index = 0; index < shardCount; index++) dirtyShards.add(index);
+    }
+
+    if (dirtyShards.size === 0) return;
+
+    const generation = this.tableGenerations.get(tableName) || 0;
+    const durability = this.getTableDurability(tableName);
+    const shards = this.splitShards(table, shardCount, dirtyShards);
+    const tablePath = this.getTablePath(tableName);
+    const tempPaths: Map<number, string> = new Map();
+    const shardStats: Map<number, CompressionStats> = new Map();
+
+    try {
+      for (const [index, records] of shards) {
+        const shardPath = join(tablePath, getShardName(index));
+
+        // none: Overwrite shard files in place, without the safety of a temp file
+        const filePath =
+          durability === 'none' ? shardPath : this.createTempPath(shardPath);
+        if (filePath !== shardPath) tempPaths.set(index, filePath);
+
+        shardStats.set(
+          index,
+          await this.writeTableFile(filePath, tableName, records, shardCount)
+        );
+      }
+
+      if (this.isStaleSnapshot(tableName, generation)) {
+        for (const tempPath of tempPaths.values()) await unlink(tempPath);
+        return;
+      }
+
+      const fileStats: Map<number, CompressionStats> =
+        this.fileStats.get(tableName) || new Map();
+      this.fileStats.set(tableName, fileStats);
+
+      for (const [index, stats] of shardStats) {
+        const tempPath = tempPaths.get(index);
+        if (tempPath)
+          await rename(tempPath, join(tablePath, getShardName(index)));
+        tempPaths.delete(index);
+        dirtyShards.delete(index);
+        fileStats.set(index, stats);
+      }
+
+      // fsync+dir: Force the renamed shard entries to physical storage
+      if (durability === 'fsync+dir') await this.syncDirectory(tablePath);
+
+      this.persistedGenerations.set(tableName, generation);
+      this.tableSizes.set(
+        tableName,
+        this.getTableCompressionStats(tableName)?.uncompressedBytes || 0
+      );
+    } catch (error) {
+      for (const tempPath of tempPaths.values()) {
+        try {
+          await unlink(tempPath);
+        } catch (_cleanupError) {
+          // Ignore cleanup errors
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * @description Write a full snapshot of a table to a temp file, or for sharded tables
+   * to a temp directory holding every shard file.
+   */
+  private async stageTable(
+    tableName: string,
+    table: Map<string, DatabaseRecord>,
+    encryptionKey = this.encryptionKey
+  ): Promise<StagedTable> {
+    const generation = this.tableGenerations.get(tableName) || 0;
+    const shardCount = this.getTableShardCount(tableName);
+    const durability = this.getTableDurability(tableName);
+    const tempPath = this.createTempPath(this.getTablePath(tableName));
+
+    const files =
+      shardCount > 0
+        ? this.splitShards(table, shardCount)
+        : new Map([[0, Array.from(table)]]);
+    const fileStats: Map<number, CompressionStats> = new Map();
+
+    try {
+      if (shardCount > 0) await mkdir(tempPath);
+
+      for (const [index, records] of files)
+        fileStats.set(
+          index,
+          await this.writeTableFile(
+            shardCount > 0 ? join(tempPath, getShardName(index)) : tempPath,
+            tableName,
+            records,
+            shardCount,
+            encryptionKey
+          )
+        );
+
+      // fsync+dir: Force the shard entries of the temp directory to physical storage
+      if (shardCount > 0 && durability === 'fsync+dir')
+        await this.syncDirectory(tempPath);
+    } catch (error) {
+      await rm(tempPath, { recursive: true, force: true });
+      throw error;
+    }
+
+    return {
+      tableName,
+      tempPath,
+      generation,
+      shardCount,
+      fileStats
+    };
+  }
+
+  /**
+   * @description Move a staged table into place.
+   *
+   * A table file replacing a table file is a single atomic rename. Any other change
+   * (a sharded table, or a change of layout) first moves the old table aside to a hidden
+   * `.<table>.replaced` path, which `start()` restores if the process crashes before
+   * the staged table is in place.
+   */
+  private async installStagedTable(stagedTable: StagedTable): Promise<void> {
+    const { tableName, tempPath, generation, shardCount } = stagedTable;
+    const tablePath = this.getTablePath(tableName);
+
+    const syncDirectory = this.getTableDurability(tableName) === 'fsync+dir';
+
+    if (shardCount === 0 && !this.isDirectory(tablePath)) {
+      await rename(tempPath, tablePath);
+
+      // fsync+dir: Force the renamed entry to physical storage
+      if (syncDirectory) await this.syncDirectory(this.databaseDirectory);
+    } else {
+      const replacedPath = this.getReplacedPath(tableName);
+      if (existsSync(tablePath)) await rename(tablePath, replacedPath);
+      await rename(tempPath, tablePath);
+
+      // fsync+dir: The new table must be on disk before the old one is removed
+      if (syncDirectory) await this.syncDirectory(this.databaseDirectory);
+
+      await rm(replacedPath, { recursive: true, force: true });
+    }
+
+    this.setPersistedTable(
+      tableName,
+      generation,
+      shardCount,
+      stagedTable.fileStats
+    );
+  }
+
+  /**
+   * @description Record the state of a table that was just persisted in full.
+   */
+  private setPersistedTable(
+    tableName: string,
+    generation: number,
+    shardCount: number,
+    fileStats: Map<number, CompressionStats>
+  ): void {
+    this.persistedGenerations.set(tableName, generation);
+    this.tableShardCounts.set(tableName, shardCount);
+    this.fileStats.set(tableName, fileStats);
+    this.dirtyShards.delete(tableName);
+    this.tableSizes.set(
+      tableName,
+      this.getTableCompressionStats(tableName)?.uncompressedBytes || 0
+    );
+  }
+
+  /**
+   * @description Check if a snapshot is older than the one already persisted for its table.
+   */
+  private isStaleSnapshot(tableName: string, generation: number): boolean {
+    const persistedGeneration = this.persistedGenerations.get(tableName);
+    return (
+      persistedGeneration !== undefined && persistedGeneration > generation
+    );
+  }
+
+  /**
+   * @description Finish or undo table replacements interrupted by a crash.
+   * If the new table made it into place, the old one is removed; otherwise it is restored.
+   */
+  private async recoverReplacedTables(): Promise<void> {
+    for (const file of readdirSync(this.databaseDirectory)) {
+      const match = /^\.(.+)\.replaced$/.exec(file);
+      if (!match) continue;
+
+      const replacedPath = join(this.databaseDirectory, file);
+      const tablePath = this.getTablePath(match[1]);
+
+      if (existsSync(tablePath))
+        await rm(replacedPath, { recursive: true, force: true });
+      else await rename(replacedPath, tablePath);
+    }
+  }
+
+  /**
+   * @description Throw if the directory was migrated by a newer version of the application
+   * than the configured `appVersion`.
+   */
+  private assertAppVersion({ appVersion }: SystemTable): void {
+    if (this.appVersion === null) return;
+
+    if (appVersion !== null && compareVersions(appVersion, this.appVersion) > 0)
+      throw new DatabaseVersionError(
+        this.databaseDirectory,
+        this.appVersion,
+        appVersion
+      );
+  }
+
+  /**
+   * @description Write the system table, forcing its entry to physical storage
+   * whatever the durability level, since migrations must never be recorded twice or lost.
+   */
+  private async persistSystemTable(systemTable: SystemTable): Promise<void> {
+    await writeSystemTable(this.databaseDirectory, systemTable);
+    await this.syncDirectory(this.databaseDirectory);
+  }
+
+  /**
+   * @description Load the definitions of the indexes on fields from the system table.
+   * Indexes created before `start()` are kept.
+   */
+  private loadIndexDefinitions({ indexes = [] }: SystemTable): void {
+    for (const { table, name, field, unique } of indexes) {
+      const definitions = this.indexDefinitions.get(table) || new Map();
+      if (!definitions.has(name)) definitions.set(name, { field, unique });
+      this.indexDefinitions.set(table, definitions);
+    }
+  }
+
+  /**
+   * @description Record the definitions of all indexes on fields in the system table.
+   * Read-only instances keep their indexes in memory only.
+   */
+  private async persistIndexes(): Promise<void> {
+    if (this.readOnly) return;
+
+    await this.withTableLock(SYSTEM_TABLE, async () => {
+      const systemTable = await readSystemTable(this.databaseDirectory);
+      systemTable.indexes = [];
+
+      for (const [table, definitions] of this.indexDefinitions)
+        for (const [name, { field, unique = false }] of definitions)
+          if (typeof field === 'string')
+            systemTable.indexes.push({ table, name, field, unique });
+
+      await this.persistSystemTable(systemTable);
+    });
+  }
+
+  /**
+   * @description Create an index that extracts the value to index from records.
+   */
+  private createSecondaryIndex({
+    field,
+    unique = false
+  }: IndexOptions): SecondaryIndex<DatabaseRecord> {
+    const extract =
+      typeof field === 'string'
+        ? (record: DatabaseRecord) => getFieldValue(record.value, field)
+        : (record: DatabaseRecord) => field(record.value);
+
+    return new SecondaryIndex(extract, unique);
+  }
+
+  /**
+   * @description Add the indexes defined for a table to its records, as the table is loaded.
+   */
+  private setIndexes(
+    tableName: string,
+    table: SortedMap<DatabaseRecord>
+  ): void {
+    for (const [name, definition] of this.indexDefinitions.get(tableName) || [])
+      table.setIndex(name, this.createSecondaryIndex(definition));
+  }
+
+  /**
+   * @description Iterate over the records of a table one batch at a time. Each batch continues
+   * after the last key of the one before, and is read from the table as it is then, so changes
+   * between batches never invalidate the iteration (nor does the table being evicted).
+   */
+  private async *iterateTable(
+    tableName: string,
+    options: IterateOptions
+  ): AsyncGenerator<[string, any]> {
+    const { reverse = false, signal, batchSize = 100 } = options;
+    let range: KeyRange = options;
+
+    while (true) {
+      signal?.throwIfAborted();
+
+      const batch: [string, any][] = [];
+      let lastKey: string | undefined;
+
+      // Errors are thrown rather than ending the iteration, which would look complete
+      const table = await this.ensureTable(tableName);
+      this.assertTableAvailable(tableName);
+
+      const expiredKeys: string[] = [];
+      let visited = 0;
+
+      for (const key of table.rangeKeys(range, reverse)) {
+        if (visited++ >= batchSize) break;
+
+        lastKey = key;
+        const record = table.get(key) as DatabaseRecord;
+        if (this.isExpired(record)) expiredKeys.push(key);
+        else batch.push([key, record.value]);
+      }
+
+      if (expiredKeys.length > 0) {
+        for (const expiredKey of expiredKeys) table.delete(expiredKey);
+
+        await this.commit(tableName, expiredKeys);
+      }
+
+      for (const entry of batch) {
+        signal?.throwIfAborted();
+        yield entry;
+      }
+
+      if (lastKey === undefined) return;
+
+      range = reverse
+        ? { ...range, lt: lastKey, lte: undefined }
+        : { ...range, gt: lastKey, gte: undefined };
+    }
+  }
+
+  /**
+   * @description Get the keys of the records that may match a query filter, in key order.
+   * If the filter compares fields with secondary indexes by equality, the index pointing to
+   * the fewest records narrows them down. Otherwise, every key of the table is a candidate.
+   */
+  private getQueryCandidates(
+    tableName: string,
+    table: SortedMap<DatabaseRecord>,
+    filter: QueryFilter
+  ): Iterable<string> {
+    const definitions = this.indexDefinitions.get(tableName) || new Map();
+    let candidates: Set<string> | null = null;
+
+    for (const [field, values] of getEqualityConditions(filter)) {
+      for (const [indexName, definition] of definitions) {
+        const index = table.indexes.get(indexName);
+        if (definition.field !== field || !index) continue;
+
+        const keys = new Set(values.flatMap((value) => index.find(value)));
+        if (!candidates || keys.size < candidates.size) candidates = keys;
+      }
+    }
+
+    return candidates ? Array.from(candidates).sort() : table.rangeKeys({});
+  }
+
+  /**
+   * @description Throw if an index does not exist on a table.
+   */
+  private assertIndexExists(tableName: string, indexName: string): void {
+    if (!this.indexDefinitions.get(tableName)?.has(indexName))
+      throw new Error(
+        `Index "${indexName}" does not exist on table "${tableName}"`
+      );
+  }
+
+  /**
+   * @description Throw if records about to be set would give two keys the same value in
+   * a unique index of a table. Records are checked against each other, and unless they replace
+   * the whole table, against the records they leave in place. Expired records never conflict.
+   *
+   * @throws UniqueConstraintError naming the first conflicting key
+   */
+  private assertUniqueIndexes(
+    tableName: string,
+    table: SortedMap<DatabaseRecord>,
+    records: [string, DatabaseRecord][],
+    isReplacing: boolean,
+    indexes: Map<string, SecondaryIndex<DatabaseRecord>> = table.indexes
+  ): void {
+    const keys = new Set(records.map(([key]) => key));
+
+    for (const [indexName, index] of indexes) {
+      if (!index.unique) continue;
+
+      const seen: Map<unknown, string> = new Map();
+
+      for (const [key, record] of records) {
+        const value = index.getValue(record);
+        if (value === undefined) continue;
+
+        const existingKey =
+          seen.get(value) ??
+          (isReplacing
+            ? undefined
+            : index
+                .find(value)
+                .find(
+                  (indexedKey) =>
+                    !keys.has(indexedKey) &&
+                    !this.isExpired(table.get(indexedKey) as DatabaseRecord)
+                ));
+
+        if (existingKey !== undefined)
+          throw new UniqueConstraintError(
+            tableName,
+            indexName,
+            value,
+            existingKey
+          );
+        seen.set(value, key);
+      }
+    }
+  }
+
+  /**
+   * @description Migrate every record of a table with `up` and swap the migrated table into place,
+   * holding the table lock. Records are migrated from copies, and the table is only changed
+   * once all of them succeeded. Writes to the table wait until the migration has finished.
+   */
+  private async migrateTable({
+    table: tableName,
+    up
+  }: Migration): Promise<void> {
+    const migration = this.withTableLock(tableName, async () => {
+      const table = await this.ensureTable(tableName);
+      this.assertTableAvailable(tableName);
+
+      await this.foldLog(tableName);
+
+      const previousRecords = Array.from(table);
+      const migratedRecords: [string, DatabaseRecord][] = [];
+      const timestamp = Date.now();
+      let changedRecords = 0;
+
+      for (const [key, record] of previousRecords) {
+        if (this.isExpired(record)) continue;
+
+        // Awaited, so an async `up` never stores its Promise (which serializes as {})
+        const value = await up(structuredClone(record.value), key);
+        if (value === undefined) continue;
+        validateValue(value);
+
+        const isChanged =
+          JSON.stringify(value) !== JSON.stringify(record.value);
+        if (isChanged) changedRecords++;
+        migratedRecords.push([
+          key,
+          isChanged
+            ? { ...record, value, version: record.version + 1, timestamp }
+            : record
+        ]);
+      }
+
+      // Nothing to swap in, e.g. for a table that does not exist yet
+      if (
+        changedRecords === 0 &&
+        migratedRecords.length === previousRecords.length
+      )
+        return;
+
+      this.assertUniqueIndexes(tableName, table, migratedRecords, true);
+      await this.replaceTable(tableName, table, migratedRecords);
+    });
+
+    // Settles either way, since writes waiting for it report their own errors
+    this.migratingTables.set(
+      tableName,
+      migration.then(
+        () => undefined,
+        () => undefined
+      )
+    );
+
+    try {
+      await migration;
+    } finally {
+      this.migratingTables.delete(tableName);
+    }
+  }
+
+  /**
+   * @description Re-encode the selected records of a table with the current version of a dictionary
+   * (or without one) and swap the rewritten table into place, holding the table lock.
+   * Returns the number of records re-encoded.
+   */
+  private async reencodeRecords(
+    tableName: string,
+    dictionaryName: string | undefined,
+    isSelected: (record: DatabaseRecord) => boolean
+  ): Promise<number> {
+    return this.withTableLock(tableName, async () => {
+      const table = await this.ensureTable(tableName);
+      this.assertTableAvailable(tableName);
+
+      if (!Array.from(table.values()).some(isSelected)) return 0;
+
+      await this.foldLog(tableName);
+
+      let reencodedRecords = 0;
+      const records = Array.from(
+        table,
+        ([key, record]): [string, DatabaseRecord] => {
+          if (!isSelected(record)) return [key, record];
+
+          reencodedRecords++;
+          return [key, { ...record, dictionaryName }];
+        }
+      );
+
+      await this.replaceTable(tableName, table, records);
+
+      return reencodedRecords;
+    });
+  }
+
+  /**
+   * @description Fold the log of a table into its table file, holding the table lock.
+   * Done before a table is rewritten with changed records, since replaying old log entries
+   * over them would undo the change.
+   */
+  private async foldLog(tableName: string): Promise<void> {
+    const logPath = this.getLogPath(tableName);
+    if (!existsSync(logPath)) return;
+
+    await this.persistTable(tableName);
+    await unlink(logPath);
+    this.logSizes.set(tableName, 0);
+  }
+
+  /**
+   * @description Replace the records of a table in memory and swap a full table file holding them
+   * into place, holding the table lock. If writing it fails, the previous records are restored.
+   */
+  private async replaceTable(
+    tableName: string,
+    table: Map<string, DatabaseRecord>,
+    records: [string, DatabaseRecord][]
+  ): Promise<void> {
+    const previousRecords = Array.from(table);
+
+    table.clear();
+    for (const [key, record] of records) table.set(key, record);
+
+    this.tableGenerations.set(
+      tableName,
+      (this.tableGenerations.get(tableName) || 0) + 1
+    );
+
+    try {
+      await this.installStagedTable(await this.stageTable(tableName, table));
+    } catch (error) {
+      table.clear();
+      for (const [key, record] of previousRecords) table.set(key, record);
+      throw error;
+    }
+  }
+
+  /**
+   * @description Copy the files of a table (its table file or shard files, and its log) into
+   * a backup directory, returning their paths relative to it.
+   */
+  private async copyTableFiles(
+    tableName: string,
+    targetDirectory: string
+  ): Promise<string[]> {
+    const tablePath = this.getTablePath(tableName);
+    const logPath = this.getLogPath(tableName);
+    const paths: string[] = [];
+
+    if (this.isDirectory(tablePath))
+      await mkdir(join(targetDirectory, tableName));
+
+    for (const [, filePath] of this.getTableFiles(tableName)) {
+      const path =
+        filePath === tablePath
+          ? tableName
+          : `${tableName}/${basename(filePath)}`;
+      await copyFile(filePath, join(targetDirectory, path));
+      paths.push(path);
+    }
+
+    if (existsSync(logPath)) {
+      await copyFile(logPath, join(targetDirectory, basename(logPath)));
+      paths.push(basename(logPath));
+    }
+
+    return paths;
+  }
+
+  /**
+   * @description Replace the tables of the database directory with the files of a verified backup,
+   * holding the directory lock exclusively.
+   */
+  private async installBackup(
+    backupDirectory: string,
+    manifest: BackupManifest
+  ): Promise<void> {
+    // Instances in this process share the lock, so check for them first
+    const owner = this.lock.getLocalOwner();
+    if (owner) throw new DatabaseLockedError(this.databaseDirectory, owner);
+
+    await this.lock.acquire();
+
+    try {
+      const paths = manifest.files.map(({ path }) => path);
+      const stagingPath = this.createTempPath(
+        join(this.databaseDirectory, '.restore')
+      );
+
+      try {
+        await mkdir(stagingPath);
+
+        for (const path of paths) {
+          await mkdir(dirname(join(stagingPath, path)), { recursive: true });
+          await copyFile(join(backupDirectory, path), join(stagingPath, path));
+        }
+
+        await verifyBackup(stagingPath, manifest);
+      } catch (error) {
+        await rm(stagingPath, { recursive: true, force: true });
+        throw error;
+      }
+
+      // Keep the lock file and any directories that are not tables
+      for (const file of readdirSync(this.databaseDirectory))
+        if (file !== basename(stagingPath) && this.isDatabaseEntry(file))
+          await rm(join(this.databaseDirectory, file), {
+            recursive: true,
+            force: true
+          });
+
+      for (const file of readdirSync(stagingPath))
+        await rename(
+          join(stagingPath, file),
+          join(this.databaseDirectory, file)
+        );
+
+      await rm(stagingPath, { recursive: true, force: true });
+      await this.syncFileDirectories(this.databaseDirectory, paths);
+    } finally {
+      await this.lock.release();
+    }
+  }
+
+  /**
+   * @description Force the entries of files, given by their paths relative to a directory,
+   * to physical storage.
+   */
+  private async syncFileDirectories(
+    directory: string,
+    paths: string[]
+  ): Promise<void> {
+    const directories = new Set(
+      paths.map((path) => dirname(join(directory, path)))
+    );
+
+    for (const directoryPath of directories)
+      await this.syncDirectory(directoryPath);
+  }
+
+  /**
+   * @description Get the path of a table file, or of the directory of a sharded table.
+   */
+  private getTablePath(tableName: string): string {
+    return join(this.databaseDirectory, tableName);
+  }
+
+  /**
+   * @description Get the hidden path an old table is moved aside to while being replaced.
+   */
+  private getReplacedPath(tableName: string): string {
+    return join(this.databaseDirectory, `.${tableName}.replaced`);
+  }
+
+  /**
+   * @description Get the files of a table on disk with their shard index:
+   * the table file (as shard 0), or every shard file of a sharded table.
+   */
+  private getTableFiles(tableName: string): [number, string][] {
+    const tablePath = this.getTablePath(tableName);
+
+    if (!existsSync(tablePath)) return [];
+    if (!this.isDirectory(tablePath)) return [[0, tablePath]];
+
+    const files: [number, string][] = [];
+
+    for (const file of readdirSync(tablePath)) {
+      const index = getShardIndexFromName(file);
+      if (index !== null) files.push([index, join(tablePath, file)]);
+    }
+
+    return files;
+  }
+
+  /**
+   * @description Check if a database directory entry is a table: a table file, or a directory
+   * holding a sharded table (which always has a first shard file).
+   */
+  private isTableEntry(file: string): boolean {
+    if (file.startsWith('.') || this.isTempFile(file)) return false;
+
+    const path = join(this.databaseDirectory, file);
+
+    return !this.isDirectory(path) || existsSync(join(path, getShardName(0)));
+  }
+
+  /**
+   * @description Check if a database directory entry is managed by the database: a table, a log,
+   * the system table, the dictionary catalog, or a temp, quarantined or replaced file left behind.
+   */
+  private isDatabaseEntry(file: string): boolean {
+    return (
+      this.isTableEntry(file) ||
+      file === SYSTEM_TABLE ||
+      file === DICTIONARY_CATALOG ||
+      this.getTableNameFromLogFile(file) !== null ||
+      this.isTempFile(file) ||
+      /^\..+\.(corrupt\.\d+|replaced)$/.test(file)
+    );
+  }
+
+  /**
+   * @description Check if a file name is a temp file (or temp directory) left by an unfinished persist.
+   */
+  private isTempFile(file: string): boolean {
+    return file.endsWith('.tmp') || /\.tmp\.\d+\.[a-z0-9]*$/.test(file);
+  }
+
+  /**
+   * @description Check if a path is a directory.
+   */
+  private isDirectory(path: string): boolean {
+    try {
+      return statSync(path).isDirectory();
+    } catch (_) {
+      return false;
+    }
+  }
+
+  /**
+   * @description Create a unique temp file path next to a file.
+   */
+  private createTempPath(filePath: string): string {
+    return `${filePath}.tmp.${Date.now()}.${Math.random().toString(36).substring(7)}`;
+  }
+
+  /**
+   * @description Stream a snapshot of records into a table file (usually a temp file),
+   * forcing it to physical storage if the table's durability level asks for it.
+   * Records are compressed one at a time as they are written, so the payload is never
+   * held in memory as a whole.
+   */
+  private async writeTableFile(
+    filePath: string,
+    tableName: string,
+    records: [string, DatabaseRecord][],
+    shardCount: number,
+    encryptionKey = this.encryptionKey
+  ): Promise<CompressionStats> {
+    await this.persistDictionaryCatalog();
+
+    const file = await encodeTableStream(
+      filePath,
+      this.compressRecords(records),
+      {
+        codec: this.getTableCompression(tableName),
+        encryptionKey,
+        shardCount,
+        sync: this.shouldSyncFiles(this.getTableDurability(tableName))
+      }
+    );
+
+    return this.createCompressionStats(
+      file.codec,
+      file.uncompressedBytes,
+      file.compressedBytes
+    );
+  }
+
+  /**
+   * @description Read a table file (or shard file) into a table, returning the compression
+   * it was stored with, or null for an empty file.
+   * Files are parsed record by record, except files of earlier format versions and legacy
+   * headerless JSON files, which are read whole.
+   */
+  private async readTableFile(
+    filePath: string,
+    table: Map<string, DatabaseRecord>
+  ): Promise<Omit<DeserializedTable, 'table'> | null> {
+    const file = await decodeTableStream(
+      filePath,
+      this.decryptionKeys,
+      ([key, compressed]: [string, any]) =>
+        table.set(key, this.decompressRecord(compressed))
+    );
+
+    if (file)
+      return {
+        stats: this.createCompressionStats(
+          file.codec,
+          file.uncompressedBytes,
+          file.compressedBytes
+        ),
+        shardCount: file.shardCount
+      };
+
+    const buffer = await readFile(filePath);
+    if (buffer.length === 0) return null;
+
+    const deserialized = this.deserializeTable(buffer);
+    for (const [key, record] of deserialized.table) table.set(key, record);
+
+    return deserialized;
+  }
+
+  /**
+   * @description Force the entries of a directory, such as a file just renamed into it,
+   * to physical storage.
+   */
+  private async syncDirectory(directoryPath: string): Promise<void> {
+    let fd: FileHandle | undefined;
+
+    try {
+      fd = await open(directoryPath, 'r');
+      await fd.sync();
+    } catch (error) {
+      // Directories cannot be opened or synced on some platforms (e.g., Windows)
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code !== 'EISDIR' && code !== 'EPERM' && code !== 'EINVAL')
+        throw error;
+    } finally {
+      await fd?.close();
+    }
+  }
+
+  /**
+   * @description Check if a durability level fsyncs file data.
+   */
+  private shouldSyncFiles(durability: Durability): boolean {
+    return durability === 'fsync' || durability === 'fsync+dir';
+  }
+
+  /**
+   * @description Get the durability level for a table, preferring its per-table option.
+   */
+  private getTableDurability(tableName: string): Durability {
+    return this.tableOptions[tableName]?.durability ?? this.durability;
+  }
+
+  /**
+   * @description Split a snapshot of a table into the records of each shard, or only of the given ones.
+   */
+  private splitShards(
+    table: Map<string, DatabaseRecord>,
+    shardCount: number,
+    indexes?: Set<number>
+  ): Map<number, [string, DatabaseRecord][]> {
+    const shards: Map<number, [string, DatabaseRecord][]> = new Map();
+
+    for (let index = 0; index < shardCount; index++)
+      if (!indexes || indexes.has(index)) shards.set(index, []);
+
+    for (const [key, record] of table)
+      shards.get(getShardIndex(key, shardCount))?.push([key, record]);
+
+    return shards;
+  }
+
+  /**
+   * @description Make a dictionary the one used for writes under its name. It is added to the
+   * dictionary catalog as a new version, unless it maps the same keys as the latest one.
+   */
+  private setDictionary(name: string, dictionary: ProcessedDictionary): void {
+    const versions = this.dictionaryVersions.get(name) || [];
+    const latest = versions.at(-1);
+
+    if (
+      latest &&
+      isSameMapping(latest.deflate, dictionary.deflate) &&
+      isSameMapping(latest.values?.deflate, dictionary.values?.deflate)
+    ) {
+      if (this.dictionaries.get(name) === latest) return;
+      this.dictionaries.set(name, latest);
+    } else {
+      versions.push(dictionary);
+      this.dictionaryVersions.set(name, versions);
+      this.dictionaries.set(name, dictionary);
+    }
+
+    this.isDictionaryCatalogDirty = true;
+  }
+
+  /**
+   * @description Get a version of a dictionary from the catalog, including removed dictionaries.
+   *
+   * @throws DictionaryNotFoundError if the catalog does not have it
+   */
+  private getDictionary(name: string, version: number): ProcessedDictionary {
+    const dictionary = this.dictionaryVersions.get(name)?.[version - 1];
+    if (!dictionary) throw new DictionaryNotFoundError(name, version);
+
+    return dictionary;
+  }
+
+  /**
+   * @description Get the version of the dictionary currently used for writes under a name.
+   */
+  private getDictionaryVersion(name: string): number {
+    const dictionary = this.dictionaries.get(name);
+    return (
+      (this.dictionaryVersions.get(name) || []).indexOf(
+        dictionary as ProcessedDictionary
+      ) + 1
+    );
+  }
+
+  /**
+   * @description Load the dictionary catalog of the directory. Dictionaries passed in the options
+   * (or added before `start()`) are then set on top, becoming new versions if they changed.
+   */
+  private async loadDictionaryCatalog(): Promise<void> {
+    const catalog = await readDictionaryCatalog(this.databaseDirectory);
+    const configured = Array.from(this.dictionaries);
+
+    this.dictionaries.clear();
+    this.dictionaryVersions.clear();
+
+    for (const [name, { versions, values, removed }] of Object.entries(
+      catalog.dictionaries
+    )) {
+      const processed = versions.map((deflate, index) =>
+        processDictionary({ deflate, values: values?.[index + 1] })
+      );
+      this.dictionaryVersions.set(name, processed);
+      if (!removed)
+        this.dictionaries.set(name, processed[processed.length - 1]);
+    }
+
+    this.isDictionaryCatalogLoaded = true;
+    this.isDictionaryCatalogDirty = false;
+
+    for (const [name, dictionary] of configured)
+      this.setDictionary(name, dictionary);
+  }
+
+  /**
+   * @description Write the dictionary catalog if a dictionary changed since it was last written.
+   * Runs before any record is written, so no record reaches disk before the dictionary
+   * version it is encoded with.
+   */
+  private async persistDictionaryCatalog(): Promise<void> {
+    if (
+      this.readOnly ||
+      !this.isDictionaryCatalogLoaded ||
+      !this.isDictionaryCatalogDirty
+    )
+      return;
+
+    await this.withTableLock(DICTIONARY_CATALOG, async () => {
+      // Written by another persist while waiting for the lock
+      if (!this.isDictionaryCatalogDirty) return;
+
+      // Changes made while writing mark the catalog dirty again
+      this.isDictionaryCatalogDirty = false;
+
+      try {
+        await writeDictionaryCatalog(
+          this.databaseDirectory,
+          this.getDictionaryCatalog()
+        );
+        await this.syncDirectory(this.databaseDirectory);
+      } catch (error) {
+        this.isDictionaryCatalogDirty = true;
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * @description Get the dictionary catalog as it should be stored.
+   */
+  private getDictionaryCatalog(): DictionaryCatalog {
+    const dictionaries: Record<string, CatalogDictionary> = {};
+    let hasValues = false;
+
+    for (const [name, versions] of this.dictionaryVersions) {
+      dictionaries[name] = { versions: versions.map(({ deflate }) => deflate) };
+
+      for (const [index, { values }] of versions.entries()) {
+        if (!values) continue;
+        dictionaries[name].values ??= {};
+        dictionaries[name].values[index + 1] = values.deflate;
+        hasValues = true;
+      }
+
+      if (!this.dictionaries.has(name)) dictionaries[name].removed = true;
+    }
+
+    // Catalogs without values mappings stay readable by versions before they existed
+    return {
+      version: hasValues ? DICTIONARY_CATALOG_VERSION : 1,
+      dictionaries
+    };
+  }
+
+  /**
+   * @description Get the shard count for a table, preferring its per-table option.
+   */
+  private getTableShardCount(tableName: string): number {
+    return this.tableOptions[tableName]?.shards ?? this.shards;
+  }
+
+  /**
+   * @description Get the compression codec for a table, preferring its per-table option.
+   */
+  private getTableCompression(tableName: string): CompressionCodec {
+    return this.tableOptions[tableName]?.compression ?? this.compression;
+  }
+
+  /**
+   * @description Use a key for encrypting new data, keeping it available for decryption.
+   */
+  private setEncryptionKey(key: Buffer): void {
+    this.addDecryptionKey(key);
+    this.encryptionKey = key;
+  }
+
+  /**
+   * @description Make a key available for decrypting data, looked up by its fingerprint.
+   */
+  private addDecryptionKey(key: Buffer): void {
+    validateEncryptionKey(key);
+    this.decryptionKeys.set(getKeyFingerprint(key), key);
+  }
+
+  /**
+   * @description Encode a log entry as a line, encrypted as base64 if a key is set.
+   */
+  private encodeLogEntry(entry: string): string {
+    if (!this.encryptionKey) return entry;
+    return encrypt(Buffer.from(entry, 'utf8'), this.encryptionKey).toString(
+      'base64'
+    );
+  }
+
+  /**
+   * @description Decode a log line into its JSON entry. Plaintext entries start with "[",
+   * so logs written before encryption was enabled can still be replayed.
+   */
+  private decodeLogEntry(line: string): string {
+    if (line.startsWith('[')) return line;
+    return decrypt(Buffer.from(line, 'base64'), this.decryptionKeys).toString(
+      'utf8'
+    );
+  }
+
+  /**
+   * @description Get the compression stats of a table, summed over its shard files.
+   */
+  private getTableCompressionStats(tableName: string): CompressionStats | null {
+    const fileStats = Array.from(this.fileStats.get(tableName)?.values() || []);
+    if (fileStats.length === 0) return null;
+
+    const codecs = new Set(fileStats.map((stats) => stats.codec));
+
+    return this.createCompressionStats(
+      codecs.size === 1
+        ? fileStats[0].codec
+        : this.getTableCompression(tableName),
+      fileStats.reduce((sum, stats) => sum + stats.uncompressedBytes, 0),
+      fileStats.reduce((sum, stats) => sum + stats.compressedBytes, 0)
+    );
+  }
+
+  /**
+   * @description Create compression stats for a table file.
+   */
+  private createCompressionStats(
+    codec: CompressionCodec,
+    uncompressedBytes: number,
+    compressedBytes: number
+  ): CompressionStats {
+    return {
+      codec,
+      uncompressedBytes,
+      compressedBytes,
+      ratio: compressedBytes > 0 ? uncompressedBytes / compressedBytes : 1
+    };
+  }
+
+  /**
+   * @description Encode records as NDJSON lines for `exportTable()`, one at a time.
+   */
+  private *exportRecords(
+    records: [string, DatabaseRecord][]
+  ): Generator<string> {
+    for (const [key, record] of records) {
+      const exported: ExportedRecord = {
+        key,
+        value: record.value,
+        version: record.version,
+        timestamp: record.timestamp,
+        expiration: record.expiration
+      };
+      if (record.dictionaryName)
+        exported.dictionaryName = record.dictionaryName;
+
+      yield `${JSON.stringify(exported)}\n`;
+    }
+  }
+
+  /**
+   * @description Turn a parsed NDJSON line from `importTable()` into a record.
+   */
+  private importRecord(line: any): { key: string; record: DatabaseRecord } {
+    validateImportedRecord(line);
+
+    const { key, value, version, timestamp, expiration, dictionaryName } =
+      line as Partial<ExportedRecord> & { key: string };
+
+    return {
+      key,
+      record: {
+        value,
+        version: version ?? 1,
+        timestamp: timestamp ?? Date.now(),
+        expiration: expiration ?? null,
+        dictionaryName:
+          dictionaryName && this.dictionaries.has(dictionaryName)
+            ? dictionaryName
+            : undefined
+      }
+    };
+  }
+
+  /**
+   * @description Get the size of records as lines of a table file payload, as stored now
+   * or encoded with a dictionary instead.
+   */
+  private getEncodedBytes(
+    records: [string, DatabaseRecord][],
+    dictionary?: ProcessedDictionary
+  ): number {
+    let bytes = 0;
+
+    for (const [key, record] of records) {
+      const compressed = dictionary
+        ? {
+            ...this.compressRecord({ ...record, dictionaryName: undefined }),
+            d: transformValue(record.value, dictionary, 'deflate')
+          }
+        : this.compressRecord(record);
+
+      bytes += Buffer.byteLength(`${JSON.stringify([key, compressed])}\n`);
+    }
+
+    return bytes;
+  }
+
+  /**
+   * @description Compress records into their on-disk shape one at a time, as they are written.
+   */
+  private *compressRecords(
+    records: [string, DatabaseRecord][]
+  ): Generator<[string, any]> {
+    for (const [key, record] of records)
+      yield [key, this.compressRecord(record)];
+  }
+
+  /**
+   * @description Compress a record into its on-disk shape with short keys (d, v, t, x, n, nv),
+   * encoding its value with the current version of its dictionary.
+   */
+  private compressRecord(record: DatabaseRecord): any {
+    const dictionary = record.dictionaryName
+      ? this.dictionaries.get(record.dictionaryName)
+      : undefined;
+
+    // Directly create compressed record with short keys
+    const compressed: any = {
+      d: dictionary
+        ? transformValue(record.value, dictionary, 'deflate')
+        : record.value,
+      v: record.version,
+      t: record.timestamp,
+      x: record.expiration
+    };
+
+    // Only include the dictionary name if the value was encoded with it, and its version if not the first
+    if (dictionary && record.dictionaryName) {
+      compressed.n = record.dictionaryName;
+
+      const version = this.getDictionaryVersion(record.dictionaryName);
+      if (version > 1) compressed.nv = version;
+    }
+
+    return compressed;
+  }
+
+  /**
+   * @description Deserialize buffer data back to table map.
+   * Directly maps short keys (d, v, t, x, n) to full property names. Optionally decompresses user data if dictionary provided.
+   * Reads whole table files of format version 1, whose payload is a single JSON array:
+   * verifies the file header, then decrypts and decompresses the payload as its flags record,
+   * while still reading legacy headerless JSON files.
+   */
+  private deserializeTable(buffer: Buffer): DeserializedTable {
+    let compressedPayload = buffer;
+    let payload = buffer;
+    let recordCount: number | null = null;
+    let codec: CompressionCodec = 'none';
+    let shardCount = 0;
+
+    if (hasTableFileHeader(buffer)) {
+      const file = decodeTableFile(buffer);
+      codec = getCompressionCodec(file.flags);
+      recordCount = file.recordCount;
+      shardCount = file.shardCount;
+      compressedPayload =
+        file.flags & ENCRYPTION_FLAG
+          ? decrypt(file.payload, this.decryptionKeys)
+          : file.payload;
+
+      try {
+        payload = decompress(compressedPayload, codec);
+      } catch (error) {
+        // zlib errors carry a code, which must not be mistaken for a filesystem error
+        throw new Error(`Failed to decompress ${codec} table file`, {
+          cause: error
+        });
+      }
+    }
+
+    const data = JSON.parse(payload.toString('utf8'));
+
+    if (recordCount !== null && data.length !== recordCount)
+      throw new Error(
+        `Table file record count mismatch: expected ${recordCount}, found ${data.length}`
+      );
+
+    // Directly map short keys to DatabaseRecord structure
+    const records = data.map(([key, compressed]: [string, any]) => [
+      key,
+      this.decompressRecord(compressed)
+    ]);
+
+    return {
+      table: new Map(records),
+      stats: this.createCompressionStats(
+        codec,
+        payload.length,
+        compressedPayload.length
+      ),
+      shardCount
+    };
+  }
+
+  /**
+   * @description Decompress an on-disk record back to a DatabaseRecord, decoding its value
+   * with the dictionary version it was encoded with.
+   */
+  private decompressRecord(compressed: any): DatabaseRecord {
+    const dictionaryName = compressed.n;
+    const dictionary = dictionaryName
+      ? this.getDictionary(dictionaryName, compressed.nv ?? 1)
+      : undefined;
+
+    return {
+      value: dictionary
+        ? transformValue(compressed.d, dictionary, 'inflate')
+        : compressed.d,
+      version: compressed.v,
+      timestamp: compressed.t,
+      expiration: compressed.x,
+      dictionaryName: dictionaryName || undefined
+    };
   }
 }
@@ -0,0 +1,76 @@
+/**
+ * @description In-memory index from the values extracted from entries (such as a field of a
+ * record) to the keys of the entries holding them, for lookups without a full scan.
+ *
+ * Only strings, numbers and booleans are indexed. Entries whose extracted value is anything
+ * else (missing, null, an object or an array), or whose extractor throws, are left out.
+ * The index does not enforce uniqueness itself, so it stays consistent with its entries
+ * whatever they hold; `unique` only tells the owner to reject duplicates before changing them.
+ *
+ * @example
+ * const index = new SecondaryIndex<User>((user) => user.email, true);
+ * index.update('user1', undefined, { email: 'alice@example.com' });
+ * index.find('alice@example.com'); // ['user1']
+ */
+export class SecondaryIndex<V> {
+  readonly unique: boolean;
+  private readonly extract: (value: V) => unknown;
+  private readonly entries: Map<unknown, Set<string>> = new Map();
+
+  constructor(extract: (value: V) => unknown, unique: boolean) {
+    this.extract = extract;
+    this.unique = unique;
+  }
+
+  /**
+   * @description Get the indexed value of an entry, or undefined if it is not indexed.
+   */
+  getValue(value: V): unknown {
+    try {
+      const indexValue = this.extract(value);
+
+      return ['string', 'number', 'boolean'].includes(typeof indexValue)
+        ? indexValue
+        : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * @description Get the keys of the entries with an indexed value, in the order they were indexed.
+   */
+  find(indexValue: unknown): string[] {
+    return Array.from(this.entries.get(indexValue) || []);
+  }
+
+  /**
+   * @description Move an entry from the indexed value of its previous value to that of its next one.
+   * Pass undefined as previous for a new entry, and as next for a deleted one.
+   */
+  update(key: string, previous: V | undefined, next: V | undefined): void {
+    const previousValue =
+      previous === undefined ? undefined : this.getValue(previous);
+    const nextValue = next === undefined ? undefined : this.getValue(next);
+    if (previousValue === nextValue) return;
+
+    if (previousValue !== undefined) {
+      const keys = this.entries.get(previousValue);
+      keys?.delete(key);
+      if (keys?.size === 0) this.entries.delete(previousValue);
+    }
+
+    if (nextValue !== undefined) {
+      const keys = this.entries.get(nextValue) || new Set();
+      keys.add(key);
+      this.entries.set(nextValue, keys);
+    }
+  }
+
+  /**
+   * @description Remove every entry from the index.
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,176 @@
+import type { KeyRange } from '../interfaces';
+
+import type { SecondaryIndex } from './SecondaryIndex';
+
+/**
+ * @description Most added and deleted keys applied to the sorted keys one at a time,
+ * beyond which they are applied in a single merge.
+ */
+const MAX_SPLICED_KEYS = 16;
+
+/**
+ * @description Map with string keys that maintains its keys in sorted order alongside it,
+ * for range and prefix scans, and keeps its secondary indexes up to date on every change.
+ * Keys are ordered by UTF-16 code units, like `Array.prototype.sort()`.
+ *
+ * The sorted keys are only built on the first scan, so filling the map (such as when loading
+ * a table) never pays for sorting. From then on, keys added and deleted are collected, and only
+ * applied on the next scan: a few of them by inserting or removing each in place, and many at
+ * once by sorting the added keys and merging them in. Bulk changes (such as an import of
+ * unsorted keys) thus cost O(n log n), instead of O(n) for every single key.
+ *
+ * @example
+ * const map = new SortedMap<number>();
+ * map.set('b', 2).set('a', 1).set('c', 3);
+ * Array.from(map.rangeKeys({ gte: 'b' })); // ['b', 'c']
+ */
+export class SortedMap<V> extends Map<string, V> {
+  /**
+   * Secondary indexes over the values, by name. Add them with `setIndex()`.
+   */
+  readonly indexes: Map<string, SecondaryIndex<V>> = new Map();
+  private sortedKeys: string[] | null = null;
+  // Changes to the keys not yet applied to the sorted keys
+  private readonly addedKeys: Set<string> = new Set();
+  private readonly deletedKeys: Set<string> = new Set();
+
+  set(key: string, value: V): this {
+    const previous = this.get(key);
+
+    if (this.sortedKeys && !this.has(key)) {
+      // A deleted key still in the sorted keys only needs to be kept
+      if (!this.deletedKeys.delete(key)) this.addedKeys.add(key);
+    }
+
+    for (const index of this.indexes.values())
+      index.update(key, previous, value);
+
+    return super.set(key, value);
+  }
+
+  delete(key: string): boolean {
+    if (!this.has(key)) return false;
+
+    if (this.sortedKeys && !this.addedKeys.delete(key))
+      this.deletedKeys.add(key);
+
+    for (const index of this.indexes.values())
+      index.update(key, this.get(key), undefined);
+
+    return super.delete(key);
+  }
+
+  clear(): void {
+    this.sortedKeys = null;
+    this.addedKeys.clear();
+    this.deletedKeys.clear();
+    for (const index of this.indexes.values()) index.clear();
+    super.clear();
+  }
+
+  /**
+   * @description Add a secondary index under a name, indexing every entry already in the map.
+   */
+  setIndex(name: string, index: SecondaryIndex<V>): void {
+    for (const [key, value] of this) index.update(key, undefined, value);
+
+    this.indexes.set(name, index);
+  }
+
+  /**
+   * @description Iterate over the keys within a range in order, or in reverse order.
+   * The map must not be changed while iterating.
+   */
+  *rangeKeys(range: KeyRange, reverse = false): Generator<string> {
+    const { prefix, gt, gte, lt, lte } = range;
+    const keys = this.getSortedKeys();
+    const start = Math.max(
+      prefix === undefined ? 0 : this.search(keys, (key) => key >= prefix),
+      gte === undefined ? 0 : this.search(keys, (key) => key >= gte),
+      gt === undefined ? 0 : this.search(keys, (key) => key > gt)
+    );
+    const end = Math.min(
+      prefix === undefined
+        ? keys.length
+        : this.search(keys, (key) => key > prefix && !key.startsWith(prefix)),
+      lte === undefined ? keys.length : this.search(keys, (key) => key > lte),
+      lt === undefined ? keys.length : this.search(keys, (key) => key >= lt)
+    );
+
+    if (reverse)
+      for (let index = end - 1; index >= start; index--) yield keys[index];
+    else for (let index = start; index < end; index++) yield keys[index];
+  }
+
+  /**
+   * @description Get the keys in sorted order, sorting them if not done yet,
+   * and applying the keys added and deleted since the last time.
+   */
+  private getSortedKeys(): string[] {
+    if (!this.sortedKeys) this.sortedKeys = Array.from(this.keys()).sort();
+    else if (this.addedKeys.size > 0 || this.deletedKeys.size > 0)
+      this.sortedKeys = this.applyChanges(this.sortedKeys);
+
+    return this.sortedKeys;
+  }
+
+  /**
+   * @description Apply the keys added and deleted since the sorted keys were last updated.
+   * A few keys are spliced in and out in place, which is O(n) each but cheap, while more
+   * are applied in a single O(n + k log k) pass.
+   */
+  private applyChanges(sortedKeys: string[]): string[] {
+    const addedKeys = Array.from(this.addedKeys).sort();
+    const deletedKeys = new Set(this.deletedKeys);
+    this.addedKeys.clear();
+    this.deletedKeys.clear();
+
+    if (addedKeys.length + deletedKeys.size <= MAX_SPLICED_KEYS) {
+      for (const key of deletedKeys)
+        sortedKeys.splice(
+          this.search(sortedKeys, (sortedKey) => sortedKey >= key),
+          1
+        );
+      for (const key of addedKeys)
+        sortedKeys.splice(
+          this.search(sortedKeys, (sortedKey) => sortedKey > key),
+          0,
+          key
+        );
+
+      return sortedKeys;
+    }
+
+    const merged: string[] = [];
+    let index = 0;
+
+    for (const key of sortedKeys) {
+      if (deletedKeys.has(key)) continue;
+
+      while (index < addedKeys.length && addedKeys[index] < key)
+        merged.push(addedKeys[index++]);
+      merged.push(key);
+    }
+    while (index < addedKeys.length) merged.push(addedKeys[index++]);
+
+    return merged;
+  }
+
+  /**
+   * @description Binary search for the index of the first sorted key matching a predicate,
+   * which must be false for all keys before it and true for all keys after it.
+   */
+  private search(keys: string[], predicate: (key: string) => boolean): number {
+    let low = 0;
+    let high = keys.length;
+
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+
+      if (predicate(keys[middle])) high = middle;
+      else low = middle + 1;
+    }
+
+    return low;
+  }
+}
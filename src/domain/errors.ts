@@ -0,0 +1,186 @@
+import type { LockOwner } from '../interfaces';
+
+/**
+ * @description Thrown by `start()` when another process already owns the database directory,
+ * and by `PikoDB.restore()` when any instance does.
+ *
+ * @example
+ * try {
+ *   await db.start();
+ * } catch (error) {
+ *   if (error instanceof DatabaseLockedError) console.log(error.owner?.pid);
+ * }
+ */
+export class DatabaseLockedError extends Error {
+  readonly owner: LockOwner | null;
+
+  constructor(databaseDirectory: string, owner: LockOwner | null) {
+    const ownerDescription = owner
+      ? `process ${owner.pid} on ${owner.hostname} (last heartbeat ${new Date(owner.heartbeat).toISOString()})`
+      : 'another process';
+
+    super(
+      `Database directory "${databaseDirectory}" is locked by ${ownerDescription}. Close the other instance, or open this one with readOnly: true.`
+    );
+
+    this.name = 'DatabaseLockedError';
+    this.owner = owner;
+  }
+}
+
+/**
+ * @description Reported when a table file (or its log) fails to load because it is corrupted.
+ * The corrupted file is moved to `quarantinePath` and the table is unavailable for writes
+ * until it is deleted with `deleteTable()`.
+ *
+ * @example
+ * const db = new PikoDB({
+ *   databaseDirectory: './data',
+ *   onCorruption: (error) => alert(`${error.tableName} quarantined to ${error.quarantinePath}`)
+ * });
+ */
+export class TableCorruptedError extends Error {
+  readonly tableName: string;
+  readonly quarantinePath: string | null;
+
+  constructor(
+    tableName: string,
+    quarantinePath: string | null,
+    cause: unknown
+  ) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    const location = quarantinePath
+      ? `The corrupted file was moved to "${quarantinePath}".`
+      : 'The corrupted file was left in place.';
+
+    super(
+      `Table "${tableName}" is corrupted and unavailable for writes: ${reason}. ${location} Delete the table to make it writable again.`,
+      { cause }
+    );
+
+    this.name = 'TableCorruptedError';
+    this.tableName = tableName;
+    this.quarantinePath = quarantinePath;
+  }
+}
+
+/**
+ * @description Thrown when an encrypted table file (or log entry) cannot be decrypted with any
+ * configured key. Unlike corruption, the file is left untouched, so it can be read once the
+ * right key is supplied through `encryption.key` or `encryption.previousKeys`.
+ *
+ * @example
+ * try {
+ *   await db.start();
+ * } catch (error) {
+ *   if (error instanceof EncryptionKeyError) console.log(error.fingerprint);
+ * }
+ */
+export class EncryptionKeyError extends Error {
+  readonly fingerprint: string | null;
+
+  constructor(fingerprint: string | null) {
+    super(
+      fingerprint
+        ? `Data is encrypted with an unknown key (fingerprint ${fingerprint}). Add the key to encryption.previousKeys to read it.`
+        : 'Data is encrypted, but no encryption key is configured.'
+    );
+
+    this.name = 'EncryptionKeyError';
+    this.fingerprint = fingerprint;
+  }
+}
+
+/**
+ * @description Thrown when a table file (or log entry) has records encoded with a dictionary version
+ * that is not in the dictionary catalog. Like a missing encryption key, this is a configuration
+ * error rather than corruption, so the files are left untouched and the table stays unloaded.
+ *
+ * @example
+ * try {
+ *   await db.start();
+ * } catch (error) {
+ *   if (error instanceof DictionaryNotFoundError) console.log(error.dictionaryName);
+ * }
+ */
+export class DictionaryNotFoundError extends Error {
+  readonly dictionaryName: string;
+  readonly dictionaryVersion: number;
+
+  constructor(dictionaryName: string, dictionaryVersion: number) {
+    super(
+      `Data is encoded with dictionary "${dictionaryName}" (version ${dictionaryVersion}), which is not in the dictionary catalog. Pass it in the dictionaries option to read it.`
+    );
+
+    this.name = 'DictionaryNotFoundError';
+    this.dictionaryName = dictionaryName;
+    this.dictionaryVersion = dictionaryVersion;
+  }
+}
+
+/**
+ * @description Thrown by `start()` when the database directory was migrated by a newer
+ * version of the application than the configured `appVersion`, whose records this version
+ * may not understand.
+ *
+ * @example
+ * try {
+ *   await db.start();
+ * } catch (error) {
+ *   if (error instanceof DatabaseVersionError) console.log(error.migratedBy);
+ * }
+ */
+export class DatabaseVersionError extends Error {
+  readonly appVersion: string;
+  readonly migratedBy: string;
+
+  constructor(
+    databaseDirectory: string,
+    appVersion: string,
+    migratedBy: string
+  ) {
+    super(
+      `Database directory "${databaseDirectory}" was migrated by app version ${migratedBy}, which is newer than this app version ${appVersion}. Upgrade the app to open it.`
+    );
+
+    this.name = 'DatabaseVersionError';
+    this.appVersion = appVersion;
+    this.migratedBy = migratedBy;
+  }
+}
+
+/**
+ * @description Thrown when a write, import or migration would give two records the same value
+ * in a unique index, or when a unique index is created on a table that already has duplicates.
+ * The table is left unchanged.
+ *
+ * @example
+ * try {
+ *   await db.write('users', 'user2', { email: 'alice@example.com' });
+ * } catch (error) {
+ *   if (error instanceof UniqueConstraintError) console.log(error.existingKey);
+ * }
+ */
+export class UniqueConstraintError extends Error {
+  readonly tableName: string;
+  readonly indexName: string;
+  readonly value: unknown;
+  readonly existingKey: string;
+
+  constructor(
+    tableName: string,
+    indexName: string,
+    value: unknown,
+    existingKey: string
+  ) {
+    super(
+      `Unique index "${indexName}" on table "${tableName}" already has the value ${JSON.stringify(value)}, for key "${existingKey}".`
+    );
+
+    this.name = 'UniqueConstraintError';
+    this.tableName = tableName;
+    this.indexName = indexName;
+    this.value = value;
+    this.existingKey = existingKey;
+  }
+}
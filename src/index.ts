@@ -1,2 +1,3 @@
 export * from './domain/PikoDB';
+export * from './domain/errors';
 export * from './interfaces/Dictionary';
@@ -3,13 +3,18 @@
 /**
  * @description Dictionary for compressing/decompressing object keys in database records.
  * Provide either deflate (long → short) or inflate (short → long) mapping.
- * The inverse will be auto-generated.
+ * The inverse will be auto-generated. Repeated string values can be compressed too,
+ * with an optional values mapping (long → short).
  *
  * Important:
  * - Compression is RECURSIVE - works at all nesting levels
  * - Arrays are preserved, objects inside arrays are compressed
  * - Keys not in dictionary are preserved unchanged
- * - Choose compressed keys that don't exist in your data to avoid collisions
+ * - Short keys must be unique, and must not start with "~"
+ * - Keys in your data that collide with a short key are escaped with a "~" prefix,
+ *   so values always round-trip losslessly
+ * - String values are compressed at all nesting levels too, including inside arrays,
+ *   and are escaped the same way against short values
  *
  * @example
  * // Provide deflate mapping (long → short)
@@ -38,6 +43,15 @@
  * // Inverse deflate mapping is auto-generated!
  *
  * @example
+ * // Compress repeated string values as well
+ * const dictionary: Dictionary = {
+ *   deflate: { unit: 'u', location: 'l' },
+ *   values: { celsius: 'c', 'warehouse-A': 'wA' }
+ * };
+ * // Input:  { unit: 'celsius', location: 'warehouse-A' }
+ * // On disk: { u: 'c', l: 'wA' }
+ *
+ * @example
  * Works recursively on nested objects
  * With dictionary: { metadata: 'm', location: 'l' }
  * Input:  { metadata: { location: 'warehouse' } }
@@ -56,19 +70,47 @@ export interface Dictionary {
    * Example: { "s": "sensor", "i": "identity" }
    */
   inflate?: Record<string, string>;
+
+  /**
+   * Map of long string values to short values for compression.
+   * Example: { "celsius": "c", "warehouse-A": "wA" }
+   */
+  values?: Record<string, string>;
 }
 
 /**
- * @description Processed dictionary with both deflate and inflate mappings.
+ * @description Processed dictionary with both deflate and inflate mappings,
+ * for keys and (if any) for string values.
  */
 export interface ProcessedDictionary {
   deflate: Record<string, string>;
   inflate: Record<string, string>;
+  values?: ProcessedMapping;
 }
 
 /**
- * @description Process a dictionary by generating the missing inverse mapping.
- * Throws if neither deflate nor inflate is provided, or if both are provided.
+ * @description Mapping of long strings to short ones, with its inverse.
+ */
+export interface ProcessedMapping {
+  deflate: Record<string, string>;
+  inflate: Record<string, string>;
+}
+
+/**
+ * @description Direction to transform a value in: `deflate` shortens, `inflate` restores.
+ */
+export type DictionaryDirection = keyof ProcessedMapping;
+
+/**
+ * @description Prefix that escapes keys and string values in data that would otherwise be
+ * read back as a short one.
+ */
+const ESCAPE = '~';
+
+/**
+ * @description Process a dictionary by generating the missing inverse mappings.
+ * Throws if neither deflate nor inflate is provided, if both are provided,
+ * or if a mapping is not one-to-one.
  */
 export function processDictionary(dict: Dictionary): ProcessedDictionary {
   if (!dict.deflate && !dict.inflate) {
@@ -83,53 +125,156 @@ export function processDictionary(dict: Dictionary): ProcessedDictionary {
     );
   }
 
+  const values = processValues(dict.values);
+
   if (dict.deflate) {
+    validateMapping(dict.deflate, Object.values(dict.deflate), 'key');
+
     return {
       deflate: dict.deflate,
-      inflate: invertMapping(dict.deflate)
+      inflate: invertMapping(dict.deflate),
+      ...(values && { values })
     };
   }
 
   // dict.inflate exists
+  validateMapping(dict.inflate!, Object.keys(dict.inflate!), 'key');
+
   return {
     deflate: invertMapping(dict.inflate!),
-    inflate: dict.inflate!
+    inflate: dict.inflate!,
+    ...(values && { values })
   };
 }
 
+/**
+ * @description Process the values mapping of a dictionary, if it has a non-empty one.
+ */
+function processValues(
+  values: Record<string, string> | undefined
+): ProcessedMapping | undefined {
+  if (values === undefined) return undefined;
+
+  if (!values || typeof values !== 'object' || Array.isArray(values))
+    throw new Error('Dictionary values must be a mapping of strings');
+
+  if (Object.keys(values).length === 0) return undefined;
+
+  validateMapping(values, Object.values(values), 'value');
+
+  return { deflate: values, inflate: invertMapping(values) };
+}
+
+/**
+ * @description Check that a mapping is one-to-one, so it can be inverted without losing keys,
+ * and that no short key could be mistaken for an escaped key.
+ */
+function validateMapping(
+  mapping: Record<string, string>,
+  shortKeys: string[],
+  kind: 'key' | 'value'
+): void {
+  const mappedKeys = new Map<string, string>();
+
+  for (const [from, to] of Object.entries(mapping)) {
+    if (typeof to !== 'string' || to.length === 0)
+      throw new Error(
+        `Dictionary maps "${from}" to an empty or non-string ${kind}`
+      );
+
+    const previous = mappedKeys.get(to);
+    if (previous !== undefined)
+      throw new Error(
+        `Dictionary maps both "${previous}" and "${from}" to "${to}", so it cannot be inverted`
+      );
+    mappedKeys.set(to, from);
+  }
+
+  for (const shortKey of shortKeys)
+    if (shortKey.startsWith(ESCAPE))
+      throw new Error(
+        `Short ${kind} "${shortKey}" must not start with "${ESCAPE}", which escapes ${kind}s in data`
+      );
+}
+
 /**
  * @description Invert a mapping object (swap keys and values).
  */
 function invertMapping(
   mapping: Record<string, string>
 ): Record<string, string> {
-  const inverted: Record<string, string> = {};
-
-  for (const [key, value] of Object.entries(mapping)) inverted[value] = key;
-
-  return inverted;
+  // Object.fromEntries keeps keys such as __proto__ as own properties
+  return Object.fromEntries(
+    Object.entries(mapping).map(([key, value]) => [value, key])
+  );
 }
 
 /**
- * @description Transform a value by mapping its keys according to the dictionary.
- * Recursively handles nested objects and arrays.
+ * @description Transform a value by mapping its keys (and string values, if the dictionary
+ * maps any) according to the dictionary, shortening them with `deflate` and restoring them
+ * with `inflate`. Recursively handles nested objects and arrays.
+ *
+ * Keys in the data that are a short key, optionally behind escape characters, are escaped with
+ * one more "~" when deflating and unescaped when inflating, so no key is ever read back as
+ * another one. Other keys starting with "~" are left as they are. String values are escaped
+ * the same way against short values.
+ *
+ * @example
+ * // With the dictionary { deflate: { sensor: 's' } }
+ * transformValue({ sensor: 'DHT22', s: 1 }, dictionary, 'deflate'); // { s: 'DHT22', '~s': 1 }
+ * transformValue({ s: 'DHT22', '~s': 1 }, dictionary, 'inflate'); // { sensor: 'DHT22', s: 1 }
  */
 export function transformValue(
   value: any,
-  mapping: Record<string, string>
+  dictionary: ProcessedDictionary,
+  direction: DictionaryDirection
 ): any {
   if (value === null || value === undefined) return value;
 
+  if (typeof value === 'string')
+    return dictionary.values
+      ? transformString(value, dictionary.values, direction)
+      : value;
+
   if (typeof value !== 'object') return value;
 
   if (Array.isArray(value))
-    return value.map((item) => transformValue(item, mapping));
+    return value.map((item) => transformValue(item, dictionary, direction));
 
-  const transformed: any = {};
-  for (const [key, val] of Object.entries(value)) {
-    const newKey = mapping[key] || key;
-    transformed[newKey] = transformValue(val, mapping);
-  }
+  // Object.fromEntries keeps keys such as __proto__ as own properties
+  return Object.fromEntries(
+    Object.entries(value).map(([key, nested]) => [
+      transformString(key, dictionary, direction),
+      transformValue(nested, dictionary, direction)
+    ])
+  );
+}
+
+/**
+ * @description Map a single key or string value, escaping or unescaping strings that
+ * collide with short ones.
+ */
+function transformString(
+  text: string,
+  mapping: ProcessedMapping,
+  direction: DictionaryDirection
+): string {
+  if (Object.hasOwn(mapping[direction], text)) return mapping[direction][text];
+
+  if (direction === 'deflate')
+    return isEscapable(text, mapping) ? `${ESCAPE}${text}` : text;
+
+  return text.startsWith(ESCAPE) && isEscapable(text.slice(1), mapping)
+    ? text.slice(1)
+    : text;
+}
+
+/**
+ * @description Check if a string is a short one, optionally behind escape characters.
+ */
+function isEscapable(text: string, mapping: ProcessedMapping): boolean {
+  let start = 0;
+  while (text[start] === ESCAPE) start++;
 
-  return transformed;
+  return Object.hasOwn(mapping.inflate, text.slice(start));
 }
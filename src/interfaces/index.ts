@@ -1,3 +1,4 @@
+import type { TableCorruptedError } from '../domain/errors';
 import type { Dictionary } from './Dictionary';
 
 /**
@@ -52,6 +53,66 @@ import type { Dictionary } from './Dictionary';
  *   databaseDirectory: './data',
  *   durableWrites: true  // Guarantees data on disk before returning
  * };
+ *
+ * @example
+ * // Durable writes for one critical table only
+ * const options = {
+ *   databaseDirectory: './data',
+ *   tables: {
+ *     payments: { durability: 'fsync+dir' }
+ *   }
+ * };
+ *
+ * @example
+ * // Open a directory owned by another process for reading only
+ * const options = {
+ *   databaseDirectory: './data',
+ *   readOnly: true
+ * };
+ *
+ * @example
+ * // Load tables on first use and keep at most 100 of them in memory
+ * const options = {
+ *   databaseDirectory: './data',
+ *   lazyLoad: true,
+ *   maxLoadedTables: 100
+ * };
+ *
+ * @example
+ * // With an append-only log instead of full-table rewrites
+ * const options = {
+ *   databaseDirectory: './data',
+ *   appendOnly: true,
+ *   compactionThreshold: 5000
+ * };
+ *
+ * @example
+ * // Compress table files with gzip, and one large table with brotli
+ * const options = {
+ *   databaseDirectory: './data',
+ *   compression: 'gzip',
+ *   tables: {
+ *     telemetry: { compression: 'brotli' }
+ *   }
+ * };
+ *
+ * @example
+ * // Split a large table into 64 shard files, so writes only rewrite one shard
+ * const options = {
+ *   databaseDirectory: './data',
+ *   tables: {
+ *     events: { shards: 64 }
+ *   }
+ * };
+ *
+ * @example
+ * // Encrypt tables at rest with a key fetched on start
+ * const options = {
+ *   databaseDirectory: './data',
+ *   encryption: {
+ *     keyProvider: async () => Buffer.from(await fetchKey(), 'base64')
+ *   }
+ * };
  */
 export interface DatabaseOptions {
   databaseDirectory: string;
@@ -87,9 +148,497 @@ export interface DatabaseOptions {
    *
    * Default: false (atomic rename provides crash safety without durability overhead)
    *
+   * Shorthand for `durability: 'fsync+dir'`. Ignored if `durability` is set.
+   *
    * @default false
    */
   durableWrites?: boolean;
+  /**
+   * How far a write is forced to disk before it returns:
+   *
+   * - `none`: write table files in place. Fastest, but a crash mid-write can tear the file.
+   * - `atomic`: write a temp file and rename it over the table file. A process crash never
+   *   tears a table, but on power loss the rename may survive without its data.
+   * - `fsync`: also fsync the temp file before the rename. A table is never torn, even on
+   *   power loss, but the last write may be lost.
+   * - `fsync+dir`: also fsync the parent directory after the rename, so a completed write
+   *   survives power loss.
+   *
+   * @default 'atomic' ('fsync+dir' with `durableWrites: true`)
+   */
+  durability?: Durability;
+  /**
+   * Append mutations to a per-table log instead of rewriting the whole table file.
+   *
+   * Every write, delete or expiry cleanup appends one entry per changed key to the
+   * table's log, making single-key writes independent of the table size. Logs are
+   * replayed on load and folded into the table file by compaction.
+   *
+   * Default: false (every mutation rewrites the table file)
+   *
+   * @default false
+   */
+  appendOnly?: boolean;
+  /**
+   * Number of log entries after which a table log is compacted in the background.
+   * Only used in append-only mode.
+   *
+   * @default 1000
+   */
+  compactionThreshold?: number;
+  /**
+   * Open the database in shared read-only mode.
+   *
+   * Read-only instances do not take the directory lock, so any number of them can
+   * open a directory, also while another process owns it. All mutating operations
+   * throw, and expired records are only hidden, never removed from disk.
+   *
+   * @default false
+   */
+  readOnly?: boolean;
+  /**
+   * Milliseconds after which a directory lock without a heartbeat is considered stale
+   * and may be taken over. The heartbeat is refreshed at a third of this interval.
+   *
+   * @default 30000
+   */
+  lockStaleTimeout?: number;
+  /**
+   * Only discover tables in `start()` and load each one on first use.
+   *
+   * Useful with many tables of which only some are in use at a time.
+   *
+   * @default false
+   */
+  lazyLoad?: boolean;
+  /**
+   * Maximum number of tables kept in memory. Once exceeded, the least recently used
+   * tables without pending writes are evicted and reloaded from disk on next use.
+   *
+   * @default Infinity
+   */
+  maxLoadedTables?: number;
+  /**
+   * Approximate memory budget in bytes for loaded tables, measured by their size on disk.
+   * Once exceeded, the least recently used tables without pending writes are evicted
+   * and reloaded from disk on next use.
+   *
+   * @default Infinity
+   */
+  maxMemoryBytes?: number;
+  /**
+   * Called when a table fails to load because its file (or log) is corrupted.
+   *
+   * The corrupted file is always moved to a hidden quarantine file
+   * (`.<table>.corrupt.<timestamp>`) and the table is unavailable for writes
+   * until it is deleted with `deleteTable()`.
+   */
+  onCorruption?: (error: TableCorruptedError) => void;
+  /**
+   * Throw a `TableCorruptedError` when a corrupted table is loaded, failing `start()`,
+   * instead of continuing with the table unavailable for writes.
+   *
+   * @default false
+   */
+  failOnCorruption?: boolean;
+  /**
+   * Codec used to compress whole table files on disk. The codec is recorded in the
+   * file header, so files are always read back correctly, even after changing it.
+   * Applies to table files only, not to append-only log entries.
+   *
+   * @default 'none'
+   */
+  compression?: CompressionCodec;
+  /**
+   * Per-table options, overriding the global ones, keyed by table name.
+   */
+  tables?: Record<string, TableOptions>;
+  /**
+   * Split tables into this many shard files by key hash, stored in a directory named
+   * after the table (`users/00` to `users/ff`). A write then only rewrites the shard
+   * holding the changed key. Use 0 for a single table file.
+   *
+   * Changing the shard count of an existing table rewrites it in the new layout on
+   * its next persist.
+   *
+   * @default 0
+   */
+  shards?: number;
+  /**
+   * Encrypt table files and append-only log entries with AES-256-GCM.
+   * Data is authenticated on load, so tampered files are quarantined as corrupted.
+   */
+  encryption?: EncryptionOptions;
+  /**
+   * Version of the application using the database, e.g. `'2.4.0'`, recorded by `migrate()`.
+   * `start()` refuses to open a directory migrated by a newer version, since its
+   * records may have a shape this version does not understand.
+   */
+  appVersion?: string;
+}
+
+/**
+ * Encryption at rest. Provide either a `key` or a `keyProvider`.
+ */
+export interface EncryptionOptions {
+  /**
+   * 32-byte AES-256 key.
+   */
+  key?: Buffer;
+  /**
+   * Called by `start()` to fetch the 32-byte key, e.g. from a key management service.
+   */
+  keyProvider?: () => Buffer | Promise<Buffer>;
+  /**
+   * Earlier keys that may still be needed to read data, e.g. after a key rotation
+   * was interrupted by a crash. Data is always written with the current key.
+   */
+  previousKeys?: Buffer[];
+}
+
+/**
+ * Codec used to compress table files.
+ */
+export type CompressionCodec = 'none' | 'gzip' | 'deflate' | 'brotli';
+
+/**
+ * Options for a single table, overriding the global database options.
+ */
+export interface TableOptions {
+  compression?: CompressionCodec;
+  shards?: number;
+  durability?: Durability;
+}
+
+/**
+ * How far a write is forced to disk before it returns.
+ */
+export type Durability = 'none' | 'atomic' | 'fsync' | 'fsync+dir';
+
+/**
+ * Compression achieved for a table file, as last written or loaded.
+ * The ratio is uncompressed bytes divided by compressed bytes (e.g. 5 means 5x smaller).
+ */
+export interface CompressionStats {
+  codec: CompressionCodec;
+  uncompressedBytes: number;
+  compressedBytes: number;
+  ratio: number;
+}
+
+/**
+ * Options for importing a table from NDJSON.
+ */
+export interface ImportOptions {
+  /**
+   * `merge` writes the imported records over the table, keeping its other records.
+   * `replace` makes the table hold exactly the imported records.
+   *
+   * @default 'merge'
+   */
+  mode?: ImportMode;
+}
+
+/**
+ * How imported records are combined with the records already in a table.
+ */
+export type ImportMode = 'merge' | 'replace';
+
+/**
+ * A record as exported to a line of NDJSON, with its value inflated.
+ * When importing, only `key` and `value` are required.
+ */
+export interface ExportedRecord {
+  key: string;
+  value: any;
+  version: number;
+  timestamp: number;
+  expiration: number | null;
+  dictionaryName?: string;
+}
+
+/**
+ * Every version of every dictionary used in a database directory, so records are always
+ * read back with the mapping they were written with.
+ */
+export interface DictionaryCatalog {
+  version: number;
+  dictionaries: Record<string, CatalogDictionary>;
+}
+
+/**
+ * The versions of a dictionary, oldest first, as deflate mappings (long → short).
+ * Version 1 is the first entry. Values mappings are keyed by the version they belong to.
+ * Removed dictionaries are kept to read existing records.
+ */
+export interface CatalogDictionary {
+  versions: Record<string, string>[];
+  values?: Record<string, Record<string, string>>;
+  removed?: boolean;
+}
+
+/**
+ * Options for updating a dictionary.
+ */
+export interface UpdateDictionaryOptions {
+  /**
+   * Rewrite every record encoded with the dictionary with its new version.
+   *
+   * @default false
+   */
+  reencode?: boolean;
+}
+
+/**
+ * Options for suggesting a dictionary from the contents of a table.
+ */
+export interface SuggestDictionaryOptions {
+  /**
+   * Only keys occurring at least this many times are included.
+   *
+   * @default 2
+   */
+  minOccurrences?: number;
+  /**
+   * Maximum number of keys in the dictionary.
+   *
+   * @default 100
+   */
+  maxEntries?: number;
+}
+
+/**
+ * A dictionary suggested for a table, with the size of the table's records on disk
+ * (before whole-file compression) as stored now and as projected with the dictionary.
+ */
+export interface DictionarySuggestion {
+  dictionary: Dictionary;
+  currentBytes: number;
+  projectedBytes: number;
+  savedBytes: number;
+}
+
+/**
+ * Bounds of a range of keys, compared by UTF-16 code units. All bounds are optional and combine.
+ */
+export interface KeyRange {
+  /**
+   * Only keys starting with this prefix.
+   */
+  prefix?: string;
+  /**
+   * Only keys greater than this key.
+   */
+  gt?: string;
+  /**
+   * Only keys greater than or equal to this key.
+   */
+  gte?: string;
+  /**
+   * Only keys less than this key.
+   */
+  lt?: string;
+  /**
+   * Only keys less than or equal to this key.
+   */
+  lte?: string;
+}
+
+/**
+ * Options for scanning a range of keys in a table.
+ */
+export interface ScanOptions extends KeyRange {
+  /**
+   * Maximum number of records to return.
+   */
+  limit?: number;
+  /**
+   * Return records in descending key order.
+   *
+   * @default false
+   */
+  reverse?: boolean;
+}
+
+/**
+ * Options for iterating over the records of a table.
+ */
+export interface IterateOptions extends KeyRange {
+  /**
+   * Iterate in descending key order.
+   *
+   * @default false
+   */
+  reverse?: boolean;
+  /**
+   * Signal to stop iterating, making the iterator throw the abort reason.
+   */
+  signal?: AbortSignal;
+  /**
+   * Number of records read from the table at a time, between which writes can run.
+   *
+   * @default 100
+   */
+  batchSize?: number;
+}
+
+/**
+ * Options for listing the records of a table one page at a time.
+ */
+export interface ListOptions {
+  /**
+   * Maximum number of records in the page.
+   *
+   * @default 100
+   */
+  limit?: number;
+  /**
+   * The `nextCursor` of the previous page, or undefined for the first page.
+   */
+  cursor?: string;
+}
+
+/**
+ * A page of records of a table, in key order.
+ */
+export interface ListPage {
+  /**
+   * The [key, value] tuples of the page.
+   */
+  items: [string, any][];
+  /**
+   * Opaque cursor for the next page, or null if this is the last page.
+   */
+  nextCursor: string | null;
+}
+
+/**
+ * Options for creating a secondary index on a table.
+ */
+export interface IndexOptions {
+  /**
+   * The field to index, with dots separating nested fields (such as `'address.city'`),
+   * or a function returning the value to index for a record value.
+   * Indexes on a field are persisted, while indexes with a function must be created
+   * again after every `start()`.
+   */
+  field: string | ((value: any) => unknown);
+  /**
+   * Reject writes that would give two records the same indexed value.
+   *
+   * @default false
+   */
+  unique?: boolean;
+}
+
+/**
+ * A query filter, mapping field paths (such as `'address.city'`) to a value they must equal,
+ * or to an object of operators they must all match. `$and` and `$or` combine nested filters.
+ */
+export interface QueryFilter {
+  $and?: QueryFilter[];
+  $or?: QueryFilter[];
+  [field: string]: unknown;
+}
+
+/**
+ * Operators comparing a field with a value in a query filter.
+ * Range operators only compare numbers with numbers and strings with strings.
+ */
+export interface QueryOperators {
+  $eq?: unknown;
+  $ne?: unknown;
+  $in?: unknown[];
+  $gt?: number | string;
+  $gte?: number | string;
+  $lt?: number | string;
+  $lte?: number | string;
+  $exists?: boolean;
+  $regex?: string | RegExp;
+}
+
+/**
+ * Options for querying a table.
+ */
+export interface QueryOptions {
+  /**
+   * Only records whose value matches this filter.
+   */
+  where?: QueryFilter;
+  /**
+   * Field paths to keep in the returned values, leaving out all other fields.
+   */
+  select?: string[];
+  /**
+   * Field paths to sort by, in order of precedence. Records are in key order otherwise,
+   * and ties are broken by key.
+   */
+  orderBy?: Record<string, 'asc' | 'desc'>;
+  /**
+   * Maximum number of records to return.
+   */
+  limit?: number;
+  /**
+   * Number of matching records to skip.
+   *
+   * @default 0
+   */
+  offset?: number;
+}
+
+/**
+ * A secondary index on a field, recorded in the system table to be rebuilt after restarts.
+ */
+export interface IndexDefinition {
+  table: string;
+  name: string;
+  field: string;
+  unique: boolean;
+}
+
+/**
+ * A schema migration, run once per database directory by `migrate()`.
+ */
+export interface Migration {
+  /**
+   * Unique and stable identifier, recorded once the migration is applied.
+   */
+  id: string;
+  /**
+   * The table to migrate.
+   */
+  table: string;
+  /**
+   * Transform the value of a record into its new shape. Return `undefined` to delete the record.
+   * The value is a copy, so it may be changed in place and returned. May be async.
+   */
+  up: (value: any, key: string) => any | Promise<any>;
+}
+
+/**
+ * A migration recorded in the system table once applied.
+ */
+export interface AppliedMigration {
+  id: string;
+  table: string;
+  appliedAt: number;
+  appVersion: string | null;
+}
+
+/**
+ * Hidden metadata about a database directory, kept outside of any table.
+ */
+export interface SystemTable {
+  version: number;
+  /**
+   * The newest application version that migrated the directory.
+   */
+  appVersion: string | null;
+  migrations: AppliedMigration[];
+  /**
+   * Secondary indexes on fields, rebuilt whenever their table is loaded.
+   */
+  indexes?: IndexDefinition[];
 }
 
 /**
@@ -102,3 +651,124 @@ export interface DatabaseRecord {
   expiration: number | null;
   dictionaryName?: string;
 }
+
+/**
+ * A commit waiting for the table's in-flight commit to finish.
+ * Every change made before it starts is included in it.
+ */
+export interface PendingCommit {
+  keys: Set<string>;
+  promise: Promise<void>;
+}
+
+/**
+ * Owner of a database directory lock, as recorded in the lock file.
+ */
+export interface LockOwner {
+  id: string;
+  pid: number;
+  hostname: string;
+  acquiredAt: number;
+  heartbeat: number;
+}
+
+/**
+ * A directory lock held by this process, shared by all its instances.
+ */
+export interface HeldLock {
+  owners: number;
+  owner: LockOwner;
+  ready: Promise<void>;
+  heartbeat: NodeJS.Timeout | null;
+  /**
+   * Whether the lock was taken over by someone else while held, and by whom (if known).
+   */
+  lost: boolean;
+  lostTo: LockOwner | null;
+}
+
+/**
+ * A decoded table file header.
+ */
+export interface TableFileHeader {
+  version: number;
+  flags: number;
+  shardCount: number;
+  recordCount: number;
+  checksum: number;
+  payloadLength: number;
+}
+
+/**
+ * A decoded and verified table file.
+ */
+export interface TableFile {
+  version: number;
+  flags: number;
+  shardCount: number;
+  recordCount: number;
+  payload: Buffer;
+}
+
+/**
+ * Manifest of a backup, written last so that its presence marks a complete backup.
+ */
+export interface BackupManifest {
+  version: number;
+  createdAt: number;
+  tables: string[];
+  files: BackupFile[];
+}
+
+/**
+ * A file in a backup, with its path relative to the backup directory.
+ */
+export interface BackupFile {
+  path: string;
+  size: number;
+  checksum: number;
+}
+
+/**
+ * A table written to a temp file (or temp directory of shards), waiting to be renamed into place.
+ */
+export interface StagedTable {
+  tableName: string;
+  tempPath: string;
+  generation: number;
+  shardCount: number;
+  fileStats: Map<number, CompressionStats>;
+}
+
+/**
+ * Options for streaming records into a table file.
+ */
+export interface TableStreamOptions {
+  codec: CompressionCodec;
+  encryptionKey: Buffer | null;
+  shardCount: number;
+  /**
+   * Force the file to physical storage before it is closed.
+   */
+  sync: boolean;
+}
+
+/**
+ * A table file streamed to or from disk, with its payload size before and after compression.
+ */
+export interface StreamedTableFile {
+  codec: CompressionCodec;
+  shardCount: number;
+  recordCount: number;
+  uncompressedBytes: number;
+  compressedBytes: number;
+}
+
+/**
+ * A table (or shard) read from a table file, with the compression it was stored with.
+ */
+export interface DeserializedTable {
+  table: Map<string, DatabaseRecord>;
+  stats: CompressionStats;
+  shardCount: number;
+}
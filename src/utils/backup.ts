@@ -0,0 +1,106 @@
+import { existsSync } from 'node:fs';
+import { open, readFile } from 'node:fs/promises';
+import { isAbsolute, join } from 'node:path';
+
+import type { BackupFile, BackupManifest } from '../interfaces';
+
+import { crc32 } from './checksum';
+import { writeJsonFile } from './jsonFile';
+
+/**
+ * @description Name of the manifest file written last into a backup directory.
+ * A backup without it is incomplete.
+ */
+export const BACKUP_MANIFEST = '.backup.json';
+
+/**
+ * @description Current backup manifest version.
+ */
+export const BACKUP_VERSION = 1;
+
+/**
+ * @description Checksum a file in a directory, forcing it to physical storage on the way.
+ */
+export async function checksumFile(
+  directory: string,
+  path: string
+): Promise<BackupFile> {
+  const fd = await open(join(directory, path), 'r');
+
+  try {
+    let checksum = 0;
+    let size = 0;
+
+    for await (const chunk of fd.createReadStream({ autoClose: false })) {
+      checksum = crc32(chunk, checksum);
+      size += chunk.length;
+    }
+
+    await fd.sync();
+
+    return { path, size, checksum };
+  } finally {
+    await fd.close();
+  }
+}
+
+/**
+ * @description Write the manifest of a backup, which marks it as complete.
+ * The manifest is written to a temp file, forced to physical storage and renamed into place.
+ */
+export async function writeBackupManifest(
+  directory: string,
+  manifest: BackupManifest
+): Promise<void> {
+  await writeJsonFile(join(directory, BACKUP_MANIFEST), manifest);
+}
+
+/**
+ * @description Read the manifest of a backup.
+ * Throws if the backup is incomplete or was made by a newer version.
+ */
+export async function readBackupManifest(
+  directory: string
+): Promise<BackupManifest> {
+  const manifestPath = join(directory, BACKUP_MANIFEST);
+
+  if (!existsSync(manifestPath))
+    throw new Error(
+      `"${directory}" is not a complete backup: ${BACKUP_MANIFEST} is missing`
+    );
+
+  const manifest: BackupManifest = JSON.parse(
+    await readFile(manifestPath, 'utf8')
+  );
+
+  if (manifest.version > BACKUP_VERSION)
+    throw new Error(
+      `Backup version ${manifest.version} is not supported (max ${BACKUP_VERSION})`
+    );
+
+  // Never let a manifest point outside its backup directory
+  for (const { path } of manifest.files)
+    if (isAbsolute(path) || path.split(/[/\\]/).includes('..'))
+      throw new Error(`Backup file path "${path}" is not allowed`);
+
+  return manifest;
+}
+
+/**
+ * @description Check that every file listed in a backup manifest is present in a directory
+ * with its recorded size and checksum.
+ */
+export async function verifyBackup(
+  directory: string,
+  manifest: BackupManifest
+): Promise<void> {
+  for (const file of manifest.files) {
+    if (!existsSync(join(directory, file.path)))
+      throw new Error(`Backup file "${file.path}" is missing`);
+
+    const { size, checksum } = await checksumFile(directory, file.path);
+
+    if (size !== file.size || checksum !== file.checksum)
+      throw new Error(`Backup file "${file.path}" failed its checksum`);
+  }
+}
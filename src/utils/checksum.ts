@@ -0,0 +1,28 @@
+/**
+ * @description Lookup table for the CRC-32 (IEEE 802.3) polynomial.
+ */
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+
+  for (let i = 0; i < 256; i++) {
+    let crc = i;
+    for (let bit = 0; bit < 8; bit++)
+      crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+    table[i] = crc >>> 0;
+  }
+
+  return table;
+})();
+
+/**
+ * @description Calculate the CRC-32 checksum of a buffer.
+ * Pass the previous checksum to continue a checksum over several buffers.
+ */
+export function crc32(buffer: Uint8Array, previous = 0): number {
+  let crc = previous ^ 0xffffffff;
+
+  for (let i = 0; i < buffer.length; i++)
+    crc = CRC32_TABLE[(crc ^ buffer[i]) & 0xff] ^ (crc >>> 8);
+
+  return (crc ^ 0xffffffff) >>> 0;
+}
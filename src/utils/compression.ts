@@ -0,0 +1,88 @@
+import { PassThrough, type Transform } from 'node:stream';
+import {
+  brotliDecompressSync,
+  createBrotliCompress,
+  createBrotliDecompress,
+  createDeflate,
+  createGunzip,
+  createGzip,
+  createInflate,
+  gunzipSync,
+  inflateSync
+} from 'node:zlib';
+
+import type { CompressionCodec } from '../interfaces';
+
+/**
+ * @description Compression codecs by their id in the table file header flags.
+ */
+const CODECS: CompressionCodec[] = ['none', 'gzip', 'deflate', 'brotli'];
+
+/**
+ * @description Bits of the table file header flags holding the compression codec id.
+ */
+export const COMPRESSION_FLAG_MASK = 0b11;
+
+/**
+ * @description Get the header flags for a compression codec.
+ */
+export function getCompressionFlags(codec: CompressionCodec): number {
+  const id = CODECS.indexOf(codec);
+  if (id === -1) throw new Error(`Unknown compression codec "${codec}"`);
+  return id;
+}
+
+/**
+ * @description Get the compression codec recorded in table file header flags.
+ */
+export function getCompressionCodec(flags: number): CompressionCodec {
+  return CODECS[flags & COMPRESSION_FLAG_MASK];
+}
+
+/**
+ * @description Decompress a buffer compressed with a codec.
+ */
+export function decompress(buffer: Buffer, codec: CompressionCodec): Buffer {
+  switch (codec) {
+    case 'gzip':
+      return gunzipSync(buffer);
+    case 'deflate':
+      return inflateSync(buffer);
+    case 'brotli':
+      return brotliDecompressSync(buffer);
+    default:
+      return buffer;
+  }
+}
+
+/**
+ * @description Create a stream compressing its input with a codec.
+ */
+export function createCompressStream(codec: CompressionCodec): Transform {
+  switch (codec) {
+    case 'gzip':
+      return createGzip();
+    case 'deflate':
+      return createDeflate();
+    case 'brotli':
+      return createBrotliCompress();
+    default:
+      return new PassThrough();
+  }
+}
+
+/**
+ * @description Create a stream decompressing input compressed with a codec.
+ */
+export function createDecompressStream(codec: CompressionCodec): Transform {
+  switch (codec) {
+    case 'gzip':
+      return createGunzip();
+    case 'deflate':
+      return createInflate();
+    case 'brotli':
+      return createBrotliDecompress();
+    default:
+      return new PassThrough();
+  }
+}
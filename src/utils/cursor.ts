@@ -0,0 +1,43 @@
+/**
+ * @description Current list cursor version.
+ */
+export const CURSOR_VERSION = 1;
+
+/**
+ * @description Encode a list cursor pointing after a key of a table. Cursors hold the last key
+ * of a page rather than a position, so they stay valid whatever is written or deleted meanwhile.
+ * They are base64url, so they can be passed in URLs as they are, but should be treated as opaque.
+ */
+export function encodeCursor(tableName: string, afterKey: string): string {
+  return Buffer.from(
+    JSON.stringify({ v: CURSOR_VERSION, t: tableName, k: afterKey })
+  ).toString('base64url');
+}
+
+/**
+ * @description Decode a list cursor into the key it points after.
+ * Throws if the cursor is malformed, or was issued for another table.
+ */
+export function decodeCursor(tableName: string, cursor: string): string {
+  let decoded: any;
+
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    decoded = null;
+  }
+
+  if (
+    decoded?.v !== CURSOR_VERSION ||
+    typeof decoded.t !== 'string' ||
+    typeof decoded.k !== 'string'
+  )
+    throw new Error('Invalid list cursor');
+
+  if (decoded.t !== tableName)
+    throw new Error(
+      `List cursor was issued for table "${decoded.t}", not "${tableName}"`
+    );
+
+  return decoded.k;
+}
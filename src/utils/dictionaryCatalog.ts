@@ -0,0 +1,66 @@
+import { existsSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+import type { DictionaryCatalog } from '../interfaces';
+
+import { writeJsonFile } from './jsonFile';
+
+/**
+ * @description Name of the hidden dictionary catalog file in a database directory.
+ */
+export const DICTIONARY_CATALOG = '.dictionaries.json';
+
+/**
+ * @description Current dictionary catalog version. Version 2 added values mappings.
+ */
+export const DICTIONARY_CATALOG_VERSION = 2;
+
+/**
+ * @description Read the dictionary catalog of a database directory, or an empty one if it has none.
+ * Throws if it was written by a newer version.
+ */
+export async function readDictionaryCatalog(
+  directory: string
+): Promise<DictionaryCatalog> {
+  const catalogPath = join(directory, DICTIONARY_CATALOG);
+
+  if (!existsSync(catalogPath)) return { version: 1, dictionaries: {} };
+
+  const catalog: DictionaryCatalog = JSON.parse(
+    await readFile(catalogPath, 'utf8')
+  );
+
+  if (catalog.version > DICTIONARY_CATALOG_VERSION)
+    throw new Error(
+      `Dictionary catalog version ${catalog.version} is not supported (max ${DICTIONARY_CATALOG_VERSION})`
+    );
+
+  return catalog;
+}
+
+/**
+ * @description Write the dictionary catalog of a database directory atomically.
+ */
+export async function writeDictionaryCatalog(
+  directory: string,
+  catalog: DictionaryCatalog
+): Promise<void> {
+  await writeJsonFile(join(directory, DICTIONARY_CATALOG), catalog);
+}
+
+/**
+ * @description Check if two dictionary mappings map the same keys to the same short keys.
+ * A missing mapping is the same as an empty one.
+ */
+export function isSameMapping(
+  a: Record<string, string> = {},
+  b: Record<string, string> = {}
+): boolean {
+  const keys = Object.keys(a);
+
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every((key) => Object.hasOwn(b, key) && a[key] === b[key])
+  );
+}
@@ -0,0 +1,82 @@
+/**
+ * @description Characters short codes are made of, so codes are readable and never need escaping.
+ */
+const CODE_ALPHABET = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+/**
+ * @description Count how often each object key occurs in a value, recursing into nested
+ * objects and arrays.
+ */
+export function countKeys(value: any, counts: Map<string, number>): void {
+  if (value === null || typeof value !== 'object') return;
+
+  if (Array.isArray(value)) {
+    for (const item of value) countKeys(item, counts);
+    return;
+  }
+
+  for (const [key, nested] of Object.entries(value)) {
+    counts.set(key, (counts.get(key) || 0) + 1);
+    countKeys(nested, counts);
+  }
+}
+
+/**
+ * @description Generate short codes, shortest first: `a` to `Z`, then `aa`, `ab` and so on.
+ */
+export function* generateCodes(): Generator<string> {
+  for (let length = 1; ; length++) {
+    const indexes: number[] = new Array(length).fill(0);
+
+    while (true) {
+      yield indexes.map((index) => CODE_ALPHABET[index]).join('');
+
+      // Count up like an odometer, moving to the next length once every code is used
+      let position = length - 1;
+      while (position >= 0 && ++indexes[position] === CODE_ALPHABET.length)
+        indexes[position--] = 0;
+      if (position < 0) break;
+    }
+  }
+}
+
+/**
+ * @description Build a deflate mapping from key counts. Keys occurring at least `minOccurrences`
+ * times are ranked by occurrences × length, and the highest ranked get the shortest codes.
+ *
+ * Codes never collide with each other or with any key in the counts, since such a key would be
+ * inflated into another one on read. Keys whose code would not be shorter are left out.
+ */
+export function suggestMapping(
+  counts: Map<string, number>,
+  minOccurrences: number,
+  maxEntries: number
+): Record<string, string> {
+  const rankedKeys = Array.from(counts)
+    .filter(([, count]) => count >= minOccurrences)
+    .sort(
+      ([keyA, countA], [keyB, countB]) =>
+        countB * keyB.length - countA * keyA.length || keyA.localeCompare(keyB)
+    )
+    .map(([key]) => key);
+
+  const mapping: Record<string, string> = {};
+  const codes = generateCodes();
+  let code = codes.next().value as string;
+  let entries = 0;
+
+  for (const key of rankedKeys) {
+    if (entries === maxEntries) break;
+
+    while (counts.has(code)) code = codes.next().value as string;
+
+    // Codes only get longer, but a later key may still be long enough to gain from this one
+    if (code.length >= key.length) continue;
+
+    mapping[key] = code;
+    entries++;
+    code = codes.next().value as string;
+  }
+
+  return mapping;
+}
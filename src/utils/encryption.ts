@@ -0,0 +1,157 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  type DecipherGCM,
+  randomBytes
+} from 'node:crypto';
+
+import { EncryptionKeyError } from '../domain/errors';
+
+const ALGORITHM = 'aes-256-gcm';
+const FINGERPRINT_SIZE = 8;
+const IV_SIZE = 12;
+const TAG_SIZE = 16;
+
+/**
+ * @description Bytes added to data by encryption: key fingerprint, IV and auth tag.
+ */
+export const ENCRYPTION_OVERHEAD = FINGERPRINT_SIZE + IV_SIZE + TAG_SIZE;
+
+/**
+ * @description Bit of the table file header flags marking an encrypted payload.
+ */
+export const ENCRYPTION_FLAG = 0b100;
+
+/**
+ * @description Get the fingerprint identifying a key in encrypted data, without revealing it.
+ */
+export function getKeyFingerprint(key: Buffer): string {
+  return createHash('sha256')
+    .update(key)
+    .digest()
+    .subarray(0, FINGERPRINT_SIZE)
+    .toString('hex');
+}
+
+/**
+ * @description Encrypt a buffer with AES-256-GCM.
+ *
+ * Layout: key fingerprint (8 bytes), IV (12 bytes), auth tag (16 bytes), ciphertext.
+ */
+export function encrypt(buffer: Buffer, key: Buffer): Buffer {
+  const iv = randomBytes(IV_SIZE);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(buffer), cipher.final()]);
+
+  return Buffer.concat([
+    Buffer.from(getKeyFingerprint(key), 'hex'),
+    iv,
+    cipher.getAuthTag(),
+    ciphertext
+  ]);
+}
+
+/**
+ * @description Decrypt and authenticate a buffer encrypted with `encrypt()`,
+ * picking the key by its fingerprint.
+ *
+ * @throws EncryptionKeyError if none of the keys was used to encrypt the buffer
+ * @throws Error if the buffer is truncated or fails authentication
+ */
+export function decrypt(buffer: Buffer, keys: Map<string, Buffer>): Buffer {
+  const headerSize = FINGERPRINT_SIZE + IV_SIZE + TAG_SIZE;
+  if (buffer.length < headerSize)
+    throw new Error('Encrypted data is truncated');
+
+  const fingerprint = buffer.subarray(0, FINGERPRINT_SIZE).toString('hex');
+  const key = keys.get(fingerprint);
+  if (!key) throw new EncryptionKeyError(keys.size > 0 ? fingerprint : null);
+
+  const iv = buffer.subarray(FINGERPRINT_SIZE, FINGERPRINT_SIZE + IV_SIZE);
+  const tag = buffer.subarray(FINGERPRINT_SIZE + IV_SIZE, headerSize);
+
+  const decipher = createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+
+  try {
+    return Buffer.concat([
+      decipher.update(buffer.subarray(headerSize)),
+      decipher.final()
+    ]);
+  } catch (_) {
+    throw new Error('Encrypted data failed authentication');
+  }
+}
+
+/**
+ * @description Encrypt a stream with AES-256-GCM.
+ *
+ * Layout: key fingerprint (8 bytes), IV (12 bytes), ciphertext, auth tag (16 bytes).
+ * The auth tag comes last, as it is only known once all data is encrypted.
+ */
+export async function* encryptStream(
+  source: AsyncIterable<Buffer>,
+  key: Buffer
+): AsyncGenerator<Buffer> {
+  const iv = randomBytes(IV_SIZE);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+
+  yield Buffer.concat([Buffer.from(getKeyFingerprint(key), 'hex'), iv]);
+  for await (const chunk of source) yield cipher.update(chunk);
+  yield cipher.final();
+  yield cipher.getAuthTag();
+}
+
+/**
+ * @description Decrypt and authenticate a stream encrypted with `encryptStream()`,
+ * picking the key by its fingerprint. The last 16 bytes seen are held back as the
+ * possible auth tag, so the data is only authenticated once the stream ends.
+ *
+ * @throws EncryptionKeyError if none of the keys was used to encrypt the stream
+ * @throws Error if the stream is truncated or fails authentication
+ */
+export async function* decryptStream(
+  source: AsyncIterable<Buffer>,
+  keys: Map<string, Buffer>
+): AsyncGenerator<Buffer> {
+  const prefixSize = FINGERPRINT_SIZE + IV_SIZE;
+  let decipher: DecipherGCM | null = null;
+  let pending = Buffer.alloc(0);
+
+  for await (const chunk of source) {
+    pending = Buffer.concat([pending, chunk]);
+
+    if (!decipher) {
+      if (pending.length < prefixSize) continue;
+
+      const fingerprint = pending.subarray(0, FINGERPRINT_SIZE).toString('hex');
+      const key = keys.get(fingerprint);
+      if (!key)
+        throw new EncryptionKeyError(keys.size > 0 ? fingerprint : null);
+
+      decipher = createDecipheriv(
+        ALGORITHM,
+        key,
+        pending.subarray(FINGERPRINT_SIZE, prefixSize)
+      );
+      pending = pending.subarray(prefixSize);
+    }
+
+    if (pending.length > TAG_SIZE) {
+      yield decipher.update(pending.subarray(0, pending.length - TAG_SIZE));
+      pending = pending.subarray(pending.length - TAG_SIZE);
+    }
+  }
+
+  if (!decipher || pending.length < TAG_SIZE)
+    throw new Error('Encrypted data is truncated');
+
+  decipher.setAuthTag(pending);
+
+  try {
+    yield decipher.final();
+  } catch (_) {
+    throw new Error('Encrypted data failed authentication');
+  }
+}
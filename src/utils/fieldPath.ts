@@ -0,0 +1,23 @@
+/**
+ * @description Get the value of a field in a value, with dots separating nested fields
+ * (such as `'address.city'`). Returns undefined if a field along the path is missing.
+ *
+ * @example
+ * getFieldValue({ address: { city: 'Oslo' } }, 'address.city'); // 'Oslo'
+ */
+export function getFieldValue(value: any, path: string): any {
+  let current = value;
+
+  for (const field of path.split('.')) {
+    if (
+      current === null ||
+      typeof current !== 'object' ||
+      !Object.hasOwn(current, field)
+    )
+      return undefined;
+
+    current = current[field];
+  }
+
+  return current;
+}
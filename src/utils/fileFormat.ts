@@ -0,0 +1,133 @@
+import type { TableFile, TableFileHeader } from '../interfaces';
+
+import { crc32 } from './checksum';
+
+/**
+ * @description Magic bytes identifying a PikoDB table file.
+ */
+export const MAGIC = Buffer.from('PIKO', 'ascii');
+
+/**
+ * @description Current table file format version.
+ *
+ * - 1: the payload is a single JSON array of records, read whole
+ * - 2: the payload holds one JSON record per line, streamed record by record
+ */
+export const FORMAT_VERSION = 2;
+
+/**
+ * @description First format version with a streamed, record-per-line payload.
+ */
+export const STREAMING_FORMAT_VERSION = 2;
+
+/**
+ * @description Size of the fixed table file header in bytes.
+ *
+ * Layout (little-endian):
+ * - 0-3: magic bytes ("PIKO")
+ * - 4: format version
+ * - 5: flags
+ * - 6-7: shard count (0 for unsharded tables)
+ * - 8-11: record count
+ * - 12-15: CRC-32 of the payload
+ * - 16-23: payload length
+ */
+export const HEADER_SIZE = 24;
+
+/**
+ * @description Encode a table file header for the current format version.
+ */
+export function encodeTableFileHeader(
+  flags: number,
+  shardCount: number,
+  recordCount: number,
+  checksum: number,
+  payloadLength: number
+): Buffer {
+  const header = Buffer.alloc(HEADER_SIZE);
+
+  MAGIC.copy(header, 0);
+  header.writeUInt8(FORMAT_VERSION, 4);
+  header.writeUInt8(flags, 5);
+  header.writeUInt16LE(shardCount, 6);
+  header.writeUInt32LE(recordCount, 8);
+  header.writeUInt32LE(checksum, 12);
+  header.writeBigUInt64LE(BigInt(payloadLength), 16);
+
+  return header;
+}
+
+/**
+ * @description Check if a buffer starts with the table file magic bytes.
+ * Files without them are legacy headerless JSON tables.
+ */
+export function hasTableFileHeader(buffer: Buffer): boolean {
+  return (
+    buffer.length >= MAGIC.length &&
+    buffer.subarray(0, MAGIC.length).equals(MAGIC)
+  );
+}
+
+/**
+ * @description Read a table file header.
+ * Throws if the header is truncated or has an unsupported version.
+ */
+export function decodeTableFileHeader(buffer: Buffer): TableFileHeader {
+  if (buffer.length < HEADER_SIZE)
+    throw new Error('Table file is truncated: incomplete header');
+
+  const version = buffer.readUInt8(4);
+  if (version > FORMAT_VERSION)
+    throw new Error(
+      `Table file format version ${version} is not supported (max ${FORMAT_VERSION})`
+    );
+
+  return {
+    version,
+    flags: buffer.readUInt8(5),
+    shardCount: buffer.readUInt16LE(6),
+    recordCount: buffer.readUInt32LE(8),
+    checksum: buffer.readUInt32LE(12),
+    payloadLength: Number(buffer.readBigUInt64LE(16))
+  };
+}
+
+/**
+ * @description Check that a payload has the length recorded in its header.
+ */
+export function verifyPayloadLength(
+  header: TableFileHeader,
+  length: number
+): void {
+  if (length < header.payloadLength)
+    throw new Error(
+      `Table file is truncated: expected ${header.payloadLength} payload bytes, found ${length}`
+    );
+
+  if (length > header.payloadLength)
+    throw new Error(
+      `Table file has ${length - header.payloadLength} unexpected trailing bytes`
+    );
+}
+
+/**
+ * @description Read and verify a whole table file, returning the payload.
+ * Throws if the file is truncated, has an unsupported version or fails its checksum.
+ */
+export function decodeTableFile(buffer: Buffer): TableFile {
+  const header = decodeTableFileHeader(buffer);
+  const payload = buffer.subarray(HEADER_SIZE);
+
+  verifyPayloadLength(header, payload.length);
+
+  if (crc32(payload) !== header.checksum)
+    throw new Error('Table file checksum mismatch');
+
+  return {
+    version: header.version,
+    flags: header.flags,
+    shardCount: header.shardCount,
+    recordCount: header.recordCount,
+    payload
+  };
+}
@@ -0,0 +1,23 @@
+import { open, rename, writeFile } from 'node:fs/promises';
+
+/**
+ * @description Write a small JSON file atomically: it is written to a temp file, forced to
+ * physical storage and renamed into place, so readers only ever see the old or the new content.
+ */
+export async function writeJsonFile(
+  filePath: string,
+  data: unknown
+): Promise<void> {
+  const tempPath = `${filePath}.tmp`;
+
+  await writeFile(tempPath, JSON.stringify(data, null, 2));
+
+  const fd = await open(tempPath, 'r+');
+  try {
+    await fd.sync();
+  } finally {
+    await fd.close();
+  }
+
+  await rename(tempPath, filePath);
+}
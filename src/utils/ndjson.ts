@@ -0,0 +1,27 @@
+import { StringDecoder } from 'node:string_decoder';
+
+/**
+ * @description Split a stream of text into lines, without their line breaks (`\n` or `\r\n`).
+ * A final line without a line break is still yielded.
+ */
+export async function* readLines(
+  source: AsyncIterable<string | Buffer>
+): AsyncGenerator<string> {
+  const decoder = new StringDecoder('utf8');
+  let rest = '';
+
+  const trimLineBreak = (line: string) =>
+    line.endsWith('\r') ? line.slice(0, -1) : line;
+
+  for await (const chunk of source) {
+    const text =
+      rest + (typeof chunk === 'string' ? chunk : decoder.write(chunk));
+    const lines = text.split('\n');
+    rest = lines.pop() as string;
+
+    for (const line of lines) yield trimLineBreak(line);
+  }
+
+  rest += decoder.end();
+  if (rest) yield trimLineBreak(rest);
+}
@@ -0,0 +1,222 @@
+import { isDeepStrictEqual } from 'node:util';
+
+import type { QueryFilter, QueryOperators } from '../interfaces';
+
+import { getFieldValue } from './fieldPath';
+
+/**
+ * @description Check if a value matches a query filter. Every field condition of the filter
+ * must match, as well as all filters in `$and` and at least one filter in `$or`.
+ */
+export function matchesFilter(value: any, filter: QueryFilter): boolean {
+  for (const [field, condition] of Object.entries(filter)) {
+    if (field === '$and') {
+      if (!(condition as QueryFilter[]).every((f) => matchesFilter(value, f)))
+        return false;
+    } else if (field === '$or') {
+      if (!(condition as QueryFilter[]).some((f) => matchesFilter(value, f)))
+        return false;
+    } else if (!matchesCondition(getFieldValue(value, field), condition))
+      return false;
+  }
+
+  return true;
+}
+
+/**
+ * @description Check if a field value matches a condition: either a value it must equal,
+ * or an object of operators that must all match.
+ */
+function matchesCondition(fieldValue: unknown, condition: unknown): boolean {
+  if (!isOperators(condition)) return isEqual(fieldValue, condition);
+
+  return Object.entries(condition).every(([operator, operand]) => {
+    switch (operator) {
+      case '$eq':
+        return isEqual(fieldValue, operand);
+      case '$ne':
+        return !isEqual(fieldValue, operand);
+      case '$in':
+        return (operand as unknown[]).some((item) => isEqual(fieldValue, item));
+      case '$gt':
+        return compareRange(fieldValue, operand) > 0;
+      case '$gte':
+        return compareRange(fieldValue, operand) >= 0;
+      case '$lt':
+        return compareRange(fieldValue, operand) < 0;
+      case '$lte':
+        return compareRange(fieldValue, operand) <= 0;
+      case '$exists':
+        return (fieldValue !== undefined) === operand;
+      case '$regex':
+        return (
+          typeof fieldValue === 'string' && toRegExp(operand).test(fieldValue)
+        );
+      default:
+        return false;
+    }
+  });
+}
+
+/**
+ * @description Check if a condition is an object of operators rather than a value to equal.
+ */
+export function isOperators(condition: unknown): condition is QueryOperators {
+  return (
+    condition !== null &&
+    typeof condition === 'object' &&
+    !Array.isArray(condition) &&
+    !(condition instanceof RegExp) &&
+    Object.keys(condition).some((key) => key.startsWith('$'))
+  );
+}
+
+/**
+ * @description Check if a field value deeply equals a value. Missing fields equal nothing.
+ */
+function isEqual(fieldValue: unknown, value: unknown): boolean {
+  return fieldValue !== undefined && isDeepStrictEqual(fieldValue, value);
+}
+
+/**
+ * @description Compare a field value with the operand of a range operator. Only numbers
+ * and strings are compared, with each other's type: anything else is NaN, matching no range.
+ */
+function compareRange(fieldValue: unknown, operand: unknown): number {
+  const isComparable =
+    (typeof fieldValue === 'number' && typeof operand === 'number') ||
+    (typeof fieldValue === 'string' && typeof operand === 'string');
+
+  return isComparable ? compareFieldValues(fieldValue, operand) : Number.NaN;
+}
+
+/**
+ * @description Get a regular expression for a `$regex` operand, without the state that
+ * global and sticky expressions keep between matches.
+ */
+function toRegExp(pattern: unknown): RegExp {
+  if (!(pattern instanceof RegExp)) return new RegExp(pattern as string);
+
+  return new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, ''));
+}
+
+/**
+ * @description Get the values that fields must equal for a filter to match, for fields
+ * compared with a value, `$eq` or `$in`, directly or through `$and`. Only strings, numbers and
+ * booleans are returned, as only those can be looked up in a secondary index.
+ */
+export function getEqualityConditions(
+  filter: QueryFilter
+): Map<string, unknown[]> {
+  const conditions: Map<string, unknown[]> = new Map();
+  const isIndexable = (value: unknown) =>
+    ['string', 'number', 'boolean'].includes(typeof value);
+
+  for (const [field, condition] of Object.entries(filter)) {
+    if (field === '$or') continue;
+
+    if (field === '$and') {
+      for (const nested of condition as QueryFilter[])
+        for (const [nestedField, values] of getEqualityConditions(nested))
+          if (!conditions.has(nestedField)) conditions.set(nestedField, values);
+      continue;
+    }
+
+    const values = !isOperators(condition)
+      ? [condition]
+      : '$eq' in condition
+        ? [condition.$eq]
+        : condition.$in;
+
+    if (values?.every(isIndexable)) conditions.set(field, values);
+  }
+
+  return conditions;
+}
+
+/**
+ * @description Order of the types of JSON values when sorting, before null and missing fields.
+ */
+const TYPE_ORDER = ['number', 'string', 'boolean', 'object'];
+
+/**
+ * @description Compare two field values for sorting: numbers, then strings, then booleans,
+ * then objects and arrays, with null and missing fields last. Numbers compare numerically
+ * and strings by UTF-16 code units, like keys. Descending order reverses everything except
+ * null and missing fields, which stay last.
+ */
+export function compareFieldValues(
+  a: unknown,
+  b: unknown,
+  descending = false
+): number {
+  const rank = (value: unknown) =>
+    value === undefined
+      ? TYPE_ORDER.length + 1
+      : value === null
+        ? TYPE_ORDER.length
+        : TYPE_ORDER.indexOf(typeof value);
+  const sign = descending ? -1 : 1;
+
+  if (rank(a) !== rank(b))
+    return Math.max(rank(a), rank(b)) >= TYPE_ORDER.length
+      ? rank(a) - rank(b)
+      : sign * (rank(a) - rank(b));
+
+  if (typeof a === 'number') return sign * (a - (b as number));
+  if (typeof a === 'string' || typeof a === 'boolean')
+    return a === b ? 0 : sign * (a < (b as typeof a) ? -1 : 1);
+
+  return 0;
+}
+
+/**
+ * @description Project a value onto a list of field paths, keeping the nesting of each field.
+ * Missing fields are left out.
+ *
+ * @example
+ * projectValue({ name: 'Alice', address: { city: 'Oslo', zip: '0150' } }, ['name', 'address.city']);
+ * // { name: 'Alice', address: { city: 'Oslo' } }
+ */
+export function projectValue(value: any, fields: string[]): any {
+  const projection: Record<string, any> = {};
+  // Objects built here, as opposed to parts of the value selected as a whole
+  const built = new Set<object>([projection]);
+
+  for (const path of fields) {
+    const fieldValue = getFieldValue(value, path);
+    if (fieldValue === undefined) continue;
+
+    const parts = path.split('.');
+    const field = parts.pop() as string;
+    let target = projection;
+
+    for (const part of parts) {
+      if (!Object.hasOwn(target, part)) {
+        const nested = {};
+        built.add(nested);
+        setField(target, part, nested);
+      }
+
+      target = target[part];
+      if (!built.has(target)) break;
+    }
+
+    // A parent selected as a whole already holds the field
+    if (built.has(target)) setField(target, field, fieldValue);
+  }
+
+  return projection;
+}
+
+/**
+ * @description Set a field on an object, keeping keys such as __proto__ as own properties.
+ */
+function setField(target: Record<string, any>, field: string, value: unknown) {
+  Object.defineProperty(target, field, {
+    value,
+    enumerable: true,
+    writable: true,
+    configurable: true
+  });
+}
@@ -0,0 +1,42 @@
+const FNV_OFFSET_BASIS = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+
+/**
+ * @description Maximum number of shards per table, named `00` to `ff`.
+ */
+export const MAX_SHARDS = 256;
+
+/**
+ * @description 32-bit FNV-1a hash of a key's UTF-16 code units.
+ */
+export function fnv1a(key: string): number {
+  let hash = FNV_OFFSET_BASIS;
+
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, FNV_PRIME);
+  }
+
+  return hash >>> 0;
+}
+
+/**
+ * @description Get the shard a key belongs to.
+ */
+export function getShardIndex(key: string, shardCount: number): number {
+  return fnv1a(key) % shardCount;
+}
+
+/**
+ * @description Get the file name of a shard, e.g. `0a`.
+ */
+export function getShardName(index: number): string {
+  return index.toString(16).padStart(2, '0');
+}
+
+/**
+ * @description Get the shard index from a shard file name, or null if not a shard file.
+ */
+export function getShardIndexFromName(name: string): number | null {
+  return /^[0-9a-f]{2}$/.test(name) ? Number.parseInt(name, 16) : null;
+}
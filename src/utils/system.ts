@@ -0,0 +1,67 @@
+import { existsSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+import type { SystemTable } from '../interfaces';
+
+import { writeJsonFile } from './jsonFile';
+
+/**
+ * @description Name of the hidden system table file in a database directory.
+ */
+export const SYSTEM_TABLE = '.system.json';
+
+/**
+ * @description Current system table version.
+ */
+export const SYSTEM_TABLE_VERSION = 1;
+
+/**
+ * @description Read the system table of a database directory, or an empty one if it has none.
+ * Throws if it was written by a newer version.
+ */
+export async function readSystemTable(directory: string): Promise<SystemTable> {
+  const systemTablePath = join(directory, SYSTEM_TABLE);
+
+  if (!existsSync(systemTablePath))
+    return { version: SYSTEM_TABLE_VERSION, appVersion: null, migrations: [] };
+
+  const systemTable: SystemTable = JSON.parse(
+    await readFile(systemTablePath, 'utf8')
+  );
+
+  if (systemTable.version > SYSTEM_TABLE_VERSION)
+    throw new Error(
+      `System table version ${systemTable.version} is not supported (max ${SYSTEM_TABLE_VERSION})`
+    );
+
+  return systemTable;
+}
+
+/**
+ * @description Write the system table of a database directory atomically.
+ */
+export async function writeSystemTable(
+  directory: string,
+  systemTable: SystemTable
+): Promise<void> {
+  await writeJsonFile(join(directory, SYSTEM_TABLE), systemTable);
+}
+
+/**
+ * @description Compare two dotted version strings numerically, part by part
+ * (`'1.10.0'` is newer than `'1.9.2'`). Missing parts count as 0.
+ *
+ * @returns A negative number if `a` is older, positive if newer, 0 if equal
+ */
+export function compareVersions(a: string, b: string): number {
+  const partsA = a.split('.').map(Number);
+  const partsB = b.split('.').map(Number);
+
+  for (let index = 0; index < Math.max(partsA.length, partsB.length); index++) {
+    const difference = (partsA[index] || 0) - (partsB[index] || 0);
+    if (difference !== 0) return difference;
+  }
+
+  return 0;
+}
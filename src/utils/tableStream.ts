@@ -0,0 +1,225 @@
+import { open } from 'node:fs/promises';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { StringDecoder } from 'node:string_decoder';
+
+import type { StreamedTableFile, TableStreamOptions } from '../interfaces';
+
+import { crc32 } from './checksum';
+import {
+  createCompressStream,
+  createDecompressStream,
+  getCompressionCodec,
+  getCompressionFlags
+} from './compression';
+import {
+  decryptStream,
+  ENCRYPTION_FLAG,
+  ENCRYPTION_OVERHEAD,
+  encryptStream
+} from './encryption';
+import {
+  decodeTableFileHeader,
+  encodeTableFileHeader,
+  HEADER_SIZE,
+  hasTableFileHeader,
+  STREAMING_FORMAT_VERSION,
+  verifyPayloadLength
+} from './fileFormat';
+
+/**
+ * @description Size in bytes of the chunks lines are batched into before being compressed and written.
+ */
+const CHUNK_SIZE = 64 * 1024;
+
+/**
+ * @description Stream records into a table file, one JSON record per line, without ever
+ * holding the whole payload in memory.
+ *
+ * The header is written last, once the record count, checksum and payload length are known,
+ * so a file left unfinished by a crash never passes verification.
+ */
+export async function encodeTableStream(
+  filePath: string,
+  records: Iterable<unknown>,
+  options: TableStreamOptions
+): Promise<StreamedTableFile> {
+  const { codec, encryptionKey, shardCount } = options;
+  let recordCount = 0;
+  let uncompressedBytes = 0;
+  let compressedBytes = 0;
+  let checksum = 0;
+  let position = HEADER_SIZE;
+
+  async function* encodeLines(): AsyncGenerator<Buffer> {
+    let lines: string[] = [];
+    let length = 0;
+
+    for (const record of records) {
+      const line = `${JSON.stringify(record)}\n`;
+      lines.push(line);
+      length += line.length;
+      recordCount++;
+
+      if (length >= CHUNK_SIZE) {
+        const chunk = Buffer.from(lines.join(''), 'utf8');
+        uncompressedBytes += chunk.length;
+        yield chunk;
+        lines = [];
+        length = 0;
+      }
+    }
+
+    if (lines.length > 0) {
+      const chunk = Buffer.from(lines.join(''), 'utf8');
+      uncompressedBytes += chunk.length;
+      yield chunk;
+    }
+  }
+
+  const fd = await open(filePath, 'w');
+
+  try {
+    await pipeline(
+      Readable.from(encodeLines()),
+      createCompressStream(codec),
+      async function* (source: AsyncIterable<Buffer>) {
+        yield* encryptionKey ? encryptStream(source, encryptionKey) : source;
+      },
+      async (source: AsyncIterable<Buffer>) => {
+        for await (const chunk of source) {
+          checksum = crc32(chunk, checksum);
+          await fd.write(chunk, 0, chunk.length, position);
+          position += chunk.length;
+        }
+      }
+    );
+
+    const payloadLength = position - HEADER_SIZE;
+    compressedBytes = payloadLength - (encryptionKey ? ENCRYPTION_OVERHEAD : 0);
+
+    const flags =
+      getCompressionFlags(codec) | (encryptionKey ? ENCRYPTION_FLAG : 0);
+    const header = encodeTableFileHeader(
+      flags,
+      shardCount,
+      recordCount,
+      checksum,
+      payloadLength
+    );
+    await fd.write(header, 0, HEADER_SIZE, 0);
+
+    // fsync: Force data to physical storage before rename
+    if (options.sync) await fd.sync();
+  } finally {
+    await fd.close();
+  }
+
+  return { codec, shardCount, recordCount, uncompressedBytes, compressedBytes };
+}
+
+/**
+ * @description Stream the records of a table file one JSON line at a time, passing each to `onRecord`.
+ *
+ * The checksum is verified in a first pass, so corrupted data is never parsed.
+ * Returns null for files without a streamed payload (empty files, legacy headerless JSON
+ * files and earlier format versions), which must be read whole.
+ *
+ * @throws EncryptionKeyError if none of the keys was used to encrypt the file
+ * @throws Error if the file is truncated, corrupted or fails authentication
+ */
+export async function decodeTableStream(
+  filePath: string,
+  keys: Map<string, Buffer>,
+  onRecord: (record: any) => void
+): Promise<StreamedTableFile | null> {
+  const fd = await open(filePath, 'r');
+
+  try {
+    const { bytesRead, buffer } = await fd.read(
+      Buffer.alloc(HEADER_SIZE),
+      0,
+      HEADER_SIZE,
+      0
+    );
+    const headerBuffer = buffer.subarray(0, bytesRead);
+    if (!hasTableFileHeader(headerBuffer)) return null;
+
+    const header = decodeTableFileHeader(headerBuffer);
+    if (header.version < STREAMING_FORMAT_VERSION) return null;
+
+    const { size } = await fd.stat();
+    verifyPayloadLength(header, size - HEADER_SIZE);
+
+    // Both passes read through the same handle, so a table file renamed over this one is never mixed in
+    const readPayload = () =>
+      fd.createReadStream({ start: HEADER_SIZE, autoClose: false });
+
+    let checksum = 0;
+    for await (const chunk of readPayload()) checksum = crc32(chunk, checksum);
+    if (checksum !== header.checksum)
+      throw new Error('Table file checksum mismatch');
+
+    const codec = getCompressionCodec(header.flags);
+    const encrypted = (header.flags & ENCRYPTION_FLAG) !== 0;
+    let recordCount = 0;
+    let uncompressedBytes = 0;
+
+    try {
+      await pipeline(
+        readPayload(),
+        async function* (source: AsyncIterable<Buffer>) {
+          yield* encrypted ? decryptStream(source, keys) : source;
+        },
+        createDecompressStream(codec),
+        async (source: AsyncIterable<Buffer>) => {
+          const decoder = new StringDecoder('utf8');
+          let rest = '';
+
+          const parseLines = (text: string) => {
+            const lines = text.split('\n');
+            rest = lines.pop() as string;
+
+            for (const line of lines) {
+              onRecord(JSON.parse(line));
+              recordCount++;
+            }
+          };
+
+          for await (const chunk of source) {
+            uncompressedBytes += chunk.length;
+            parseLines(rest + decoder.write(chunk));
+          }
+
+          // Every record ends with a newline, so anything left over is a torn record
+          if (rest + decoder.end())
+            throw new Error('Table file ends with an incomplete record');
+        }
+      );
+    } catch (error) {
+      // zlib errors carry a code, which must not be mistaken for a filesystem error
+      const { code, syscall } = error as NodeJS.ErrnoException;
+      if (code && !syscall)
+        throw new Error(`Failed to decompress ${codec} table file`, {
+          cause: error
+        });
+      throw error;
+    }
+
+    if (recordCount !== header.recordCount)
+      throw new Error(
+        `Table file record count mismatch: expected ${header.recordCount}, found ${recordCount}`
+      );
+
+    return {
+      codec,
+      shardCount: header.shardCount,
+      recordCount,
+      uncompressedBytes,
+      compressedBytes:
+        header.payloadLength - (encrypted ? ENCRYPTION_OVERHEAD : 0)
+    };
+  } finally {
+    await fd.close();
+  }
+}
@@ -1,3 +1,18 @@
+import { isAbsolute, relative, resolve } from 'node:path';
+
+import type {
+  IndexOptions,
+  IterateOptions,
+  KeyRange,
+  ListOptions,
+  QueryFilter,
+  QueryOperators,
+  QueryOptions,
+  ScanOptions
+} from '../interfaces';
+
+import { isOperators } from './query';
+
 /**
  * @description Validates table name to prevent directory traversal and other security issues.
  */
@@ -101,3 +116,375 @@ export function validateValue(value: any): void {
     );
   }
 }
+
+/**
+ * @description Validates a table file compression codec.
+ */
+export function validateCompression(compression: string): void {
+  if (!['none', 'gzip', 'deflate', 'brotli'].includes(compression))
+    throw new Error(
+      `Compression must be one of "none", "gzip", "deflate" or "brotli", got "${compression}"`
+    );
+}
+
+/**
+ * @description Validates an AES-256 encryption key.
+ */
+export function validateEncryptionKey(key: Buffer): void {
+  if (!Buffer.isBuffer(key) || key.length !== 32)
+    throw new Error('Encryption key must be a 32-byte Buffer');
+}
+
+/**
+ * @description Validates a table shard count.
+ */
+export function validateShards(shards: number): void {
+  if (!Number.isInteger(shards) || shards < 0 || shards > 256)
+    throw new Error('Shards must be an integer between 0 and 256');
+}
+
+/**
+ * @description Validates a durability level.
+ */
+export function validateDurability(durability: string): void {
+  if (!['none', 'atomic', 'fsync', 'fsync+dir'].includes(durability))
+    throw new Error(
+      `Durability must be one of "none", "atomic", "fsync" or "fsync+dir", got "${durability}"`
+    );
+}
+
+/**
+ * @description Validates that a backup directory and a database directory are separate,
+ * so a backup is never read as tables and a restore never replaces its own backup.
+ */
+export function validateBackupDirectory(
+  backupDirectory: string,
+  databaseDirectory: string
+): void {
+  if (!backupDirectory || typeof backupDirectory !== 'string')
+    throw new Error('Backup directory must be a non-empty string');
+
+  const isInside = (parent: string, child: string) => {
+    const path = relative(resolve(parent), resolve(child));
+    return !path.startsWith('..') && !isAbsolute(path);
+  };
+
+  if (
+    isInside(databaseDirectory, backupDirectory) ||
+    isInside(backupDirectory, databaseDirectory)
+  )
+    throw new Error(
+      'Backup directory must not be inside the database directory, or contain it'
+    );
+}
+
+/**
+ * @description Validates an import mode.
+ */
+export function validateImportMode(mode: string): void {
+  if (!['merge', 'replace'].includes(mode))
+    throw new Error(`Import mode must be "merge" or "replace", got "${mode}"`);
+}
+
+/**
+ * @description Validates a record imported from NDJSON. Only the key and value are required.
+ */
+export function validateImportedRecord(record: any): void {
+  if (!record || typeof record !== 'object' || Array.isArray(record))
+    throw new Error('Record must be a JSON object');
+
+  validateKey(record.key);
+
+  if (!('value' in record)) throw new Error('Record must have a value');
+  validateValue(record.value);
+
+  if (
+    record.version !== undefined &&
+    (!Number.isInteger(record.version) || record.version < 1)
+  )
+    throw new Error('Version must be a positive integer');
+
+  if (record.timestamp !== undefined && !Number.isFinite(record.timestamp))
+    throw new Error('Timestamp must be a number');
+
+  if (
+    record.expiration !== undefined &&
+    record.expiration !== null &&
+    !Number.isFinite(record.expiration)
+  )
+    throw new Error('Expiration must be a number or null');
+
+  if (
+    record.dictionaryName !== undefined &&
+    typeof record.dictionaryName !== 'string'
+  )
+    throw new Error('Dictionary name must be a string');
+}
+
+/**
+ * @description Validates an application version, which must be numbers separated by dots.
+ */
+export function validateAppVersion(appVersion: string): void {
+  if (typeof appVersion !== 'string' || !/^\d+(\.\d+)*$/.test(appVersion))
+    throw new Error(
+      `App version must be numbers separated by dots (e.g. "2.4.0"), got "${appVersion}"`
+    );
+}
+
+/**
+ * @description Validates a list of migrations, whose ids must be unique.
+ */
+export function validateMigrations(migrations: any[]): void {
+  if (!Array.isArray(migrations))
+    throw new Error('Migrations must be an array');
+
+  const ids = new Set<string>();
+
+  for (const migration of migrations) {
+    if (!migration?.id || typeof migration.id !== 'string')
+      throw new Error('Migration id must be a non-empty string');
+
+    if (ids.has(migration.id))
+      throw new Error(`Migration id "${migration.id}" is not unique`);
+    ids.add(migration.id);
+
+    validateTableName(migration.table);
+
+    if (typeof migration.up !== 'function')
+      throw new Error(`Migration "${migration.id}" must have an up function`);
+  }
+}
+
+/**
+ * @description Validates the options for suggesting a dictionary.
+ */
+export function validateSuggestionOptions(
+  minOccurrences: number,
+  maxEntries: number
+): void {
+  if (!Number.isInteger(minOccurrences) || minOccurrences < 1)
+    throw new Error('Minimum occurrences must be a positive integer');
+
+  if (!Number.isInteger(maxEntries) || maxEntries < 1)
+    throw new Error('Maximum entries must be a positive integer');
+}
+
+/**
+ * @description Validates the options for scanning a range of keys.
+ */
+export function validateScanOptions(options: ScanOptions): void {
+  if (!options || typeof options !== 'object')
+    throw new Error('Scan options must be an object');
+
+  validateKeyRange(options, 'Scan');
+
+  if (
+    options.limit !== undefined &&
+    (!Number.isInteger(options.limit) || options.limit < 1)
+  )
+    throw new Error('Scan limit must be a positive integer');
+}
+
+/**
+ * @description Validates the options for iterating over a table.
+ */
+export function validateIterateOptions(options: IterateOptions): void {
+  if (!options || typeof options !== 'object')
+    throw new Error('Iteration options must be an object');
+
+  validateKeyRange(options, 'Iteration');
+
+  if (options.signal !== undefined && !(options.signal instanceof AbortSignal))
+    throw new Error('Iteration signal must be an AbortSignal');
+
+  if (
+    options.batchSize !== undefined &&
+    (!Number.isInteger(options.batchSize) || options.batchSize < 1)
+  )
+    throw new Error('Iteration batch size must be a positive integer');
+}
+
+/**
+ * @description Validates the key bounds of a scan or an iteration.
+ */
+function validateKeyRange(range: KeyRange, operation: string): void {
+  for (const bound of ['prefix', 'gt', 'gte', 'lt', 'lte'] as const)
+    if (range[bound] !== undefined && typeof range[bound] !== 'string')
+      throw new Error(`${operation} option "${bound}" must be a string`);
+
+  if (range.gt !== undefined && range.gte !== undefined)
+    throw new Error(`${operation} options "gt" and "gte" must not be combined`);
+
+  if (range.lt !== undefined && range.lte !== undefined)
+    throw new Error(`${operation} options "lt" and "lte" must not be combined`);
+}
+
+/**
+ * @description Validates the options for listing a table one page at a time.
+ */
+export function validateListOptions(options: ListOptions): void {
+  if (!options || typeof options !== 'object')
+    throw new Error('List options must be an object');
+
+  if (
+    options.limit !== undefined &&
+    (!Number.isInteger(options.limit) || options.limit < 1)
+  )
+    throw new Error('List limit must be a positive integer');
+
+  if (options.cursor !== undefined && typeof options.cursor !== 'string')
+    throw new Error('List cursor must be a string');
+}
+
+/**
+ * @description Validates a secondary index name.
+ */
+export function validateIndexName(indexName: string): void {
+  if (!indexName || typeof indexName !== 'string')
+    throw new Error('Index name must be a non-empty string');
+}
+
+/**
+ * @description Validates the options for creating a secondary index.
+ */
+export function validateIndexOptions(options: IndexOptions): void {
+  if (!options || typeof options !== 'object')
+    throw new Error('Index options must be an object');
+
+  const { field, unique } = options;
+
+  if (!isFieldPath(field) && typeof field !== 'function')
+    throw new Error(
+      'Index field must be a field path (such as "address.city") or a function'
+    );
+
+  if (unique !== undefined && typeof unique !== 'boolean')
+    throw new Error('Index option "unique" must be a boolean');
+}
+
+/**
+ * @description Validates the options for querying a table.
+ */
+export function validateQueryOptions(options: QueryOptions): void {
+  if (!options || typeof options !== 'object')
+    throw new Error('Query options must be an object');
+
+  const { where, select, orderBy, limit, offset } = options;
+
+  if (where !== undefined) validateQueryFilter(where);
+
+  if (
+    select !== undefined &&
+    (!Array.isArray(select) || !select.every(isFieldPath))
+  )
+    throw new Error('Query select must be an array of field paths');
+
+  if (orderBy !== undefined) {
+    if (!orderBy || typeof orderBy !== 'object' || Array.isArray(orderBy))
+      throw new Error('Query orderBy must be an object of field paths');
+
+    for (const [field, direction] of Object.entries(orderBy)) {
+      if (!isFieldPath(field))
+        throw new Error(`Query field "${field}" is not a valid field path`);
+
+      if (direction !== 'asc' && direction !== 'desc')
+        throw new Error(
+          `Query order of "${field}" must be "asc" or "desc", got "${direction}"`
+        );
+    }
+  }
+
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1))
+    throw new Error('Query limit must be a positive integer');
+
+  if (offset !== undefined && (!Number.isInteger(offset) || offset < 0))
+    throw new Error('Query offset must be a non-negative integer');
+}
+
+/**
+ * @description Validates a query filter and its nested filters.
+ */
+function validateQueryFilter(filter: QueryFilter): void {
+  if (!filter || typeof filter !== 'object' || Array.isArray(filter))
+    throw new Error('Query filter must be an object');
+
+  for (const [field, condition] of Object.entries(filter)) {
+    if (field === '$and' || field === '$or') {
+      if (!Array.isArray(condition))
+        throw new Error(
+          `Query operator "${field}" must be an array of filters`
+        );
+
+      for (const nested of condition) validateQueryFilter(nested);
+      continue;
+    }
+
+    if (field.startsWith('$'))
+      throw new Error(`Unknown query operator "${field}"`);
+
+    if (!isFieldPath(field))
+      throw new Error(`Query field "${field}" is not a valid field path`);
+
+    if (isOperators(condition)) validateQueryOperators(field, condition);
+  }
+}
+
+/**
+ * @description Validates the operators of a condition on a field in a query filter.
+ */
+function validateQueryOperators(
+  field: string,
+  operators: QueryOperators
+): void {
+  for (const [operator, operand] of Object.entries(operators)) {
+    switch (operator) {
+      case '$eq':
+      case '$ne':
+        break;
+      case '$in':
+        if (!Array.isArray(operand))
+          throw new Error(
+            `Query operator "$in" on "${field}" must be an array`
+          );
+        break;
+      case '$gt':
+      case '$gte':
+      case '$lt':
+      case '$lte':
+        if (typeof operand !== 'number' && typeof operand !== 'string')
+          throw new Error(
+            `Query operator "${operator}" on "${field}" must be a number or a string`
+          );
+        break;
+      case '$exists':
+        if (typeof operand !== 'boolean')
+          throw new Error(
+            `Query operator "$exists" on "${field}" must be a boolean`
+          );
+        break;
+      case '$regex':
+        if (operand instanceof RegExp) break;
+        if (typeof operand !== 'string')
+          throw new Error(
+            `Query operator "$regex" on "${field}" must be a string or a RegExp`
+          );
+        new RegExp(operand);
+        break;
+      default:
+        throw new Error(
+          operator.startsWith('$')
+            ? `Unknown query operator "${operator}"`
+            : `Query condition on "${field}" must not mix operators and fields`
+        );
+    }
+  }
+}
+
+/**
+ * @description Check if a value is a field path: names separated by dots, none of them empty.
+ */
+function isFieldPath(path: unknown): path is string {
+  return (
+    typeof path === 'string' && path.split('.').every((part) => part.length > 0)
+  );
+}
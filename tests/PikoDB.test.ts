@@ -1,10 +1,108 @@
 /** biome-ignore-all lint/suspicious/noFocusedTests: Might need to focus on occasion */
-import { existsSync } from 'node:fs';
-import { readFile, writeFile, rm } from 'node:fs/promises';
-import { join } from 'node:path';
-import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+import { spawnSync } from 'node:child_process';
+import { randomBytes } from 'node:crypto';
+import { createWriteStream, existsSync, readdirSync } from 'node:fs';
+import { mkdir, readFile, rename, writeFile, rm } from 'node:fs/promises';
+import { hostname } from 'node:os';
+import { basename, dirname, join } from 'node:path';
+import { Readable } from 'node:stream';
+import { crc32, gzipSync } from 'node:zlib';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+
+import {
+  DatabaseLockedError,
+  DatabaseVersionError,
+  DictionaryNotFoundError,
+  EncryptionKeyError,
+  PikoDB,
+  processDictionary,
+  TableCorruptedError,
+  transformValue,
+  UniqueConstraintError
+} from '../src/index.js';
+import { SortedMap } from '../src/domain/SortedMap.js';
+
+type FsOperation =
+  | { type: 'write'; path: string; data: Buffer }
+  | { type: 'rename'; from: string; to: string }
+  | { type: 'fsync'; path: string };
+
+/**
+ * A file system operation seen by `fsRecorder.intercept`, which also sees files opened for reading.
+ */
+type FsAccess = FsOperation | { type: 'read'; path: string };
+
+/**
+ * Records the file system operations made while `operations` is set,
+ * for the crash simulation in the Durability Levels tests.
+ * While `intercept` is set, it runs before each operation, and can fail it by throwing.
+ */
+const fsRecorder = vi.hoisted(() => ({
+  operations: null as FsOperation[] | null,
+  intercept: null as ((operation: FsAccess) => void | Promise<void>) | null
+}));
+
+vi.mock('node:fs/promises', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('node:fs/promises')>();
+
+  return {
+    ...actual,
+    writeFile: async (...args: Parameters<typeof actual.writeFile>) => {
+      const operation = {
+        type: 'write' as const,
+        path: String(args[0]),
+        data: Buffer.from(args[1] as string | Uint8Array)
+      };
+      await fsRecorder.intercept?.(operation);
+      fsRecorder.operations?.push(operation);
+      return actual.writeFile(...args);
+    },
+    rename: async (from: string, to: string) => {
+      await fsRecorder.intercept?.({ type: 'rename', from, to });
+      fsRecorder.operations?.push({ type: 'rename', from, to });
+      return actual.rename(from, to);
+    },
+    open: async (...args: Parameters<typeof actual.open>) => {
+      // Table files are streamed through a handle, so their content is not known yet
+      if (args[1] === 'w')
+        await fsRecorder.intercept?.({
+          type: 'write',
+          path: String(args[0]),
+          data: Buffer.alloc(0)
+        });
+      else if (args[1] === 'r' || args[1] === undefined)
+        await fsRecorder.intercept?.({ type: 'read', path: String(args[0]) });
+
+      const handle = await actual.open(...args);
+      const sync = handle.sync.bind(handle);
+      const close = handle.close.bind(handle);
+
+      // Table files are streamed through a handle: record a write of their final content
+      if (fsRecorder.operations && args[1] === 'w') {
+        const path = String(args[0]);
+        const operation = {
+          type: 'write' as const,
+          path,
+          data: Buffer.alloc(0)
+        };
+        fsRecorder.operations.push(operation);
+
+        handle.close = async () => {
+          await close();
+          operation.data = await actual.readFile(path);
+        };
+      }
+
+      handle.sync = async () => {
+        await fsRecorder.intercept?.({ type: 'fsync', path: String(args[0]) });
+        fsRecorder.operations?.push({ type: 'fsync', path: String(args[0]) });
+        return sync();
+      };
 
-import { PikoDB } from '../src/index.js';
+      return handle;
+    }
+  };
+});
 
 describe('PikoDB', () => {
   let db: PikoDB;
@@ -20,6 +118,7 @@ describe('PikoDB', () => {
   });
 
   afterEach(async () => {
+    fsRecorder.intercept = null;
     await db.close();
     if (existsSync(testDir)) {
       await rm(testDir, { recursive: true, force: true });
@@ -450,6 +549,30 @@ describe('PikoDB', () => {
       expect(existsSync(filePath)).toBe(false);
     });
 
+    test('It should not bring a table back while deleting it', async () => {
+      for (let i = 0; i < 50; i++) await db.write('t', `k${i}`, i);
+
+      // The write's commit is in flight when the table is deleted and read
+      const writing = db.write('t', 'k0', 'updated');
+      const deleting = db.deleteTable('t');
+      const reading = db.get('t', 'k1');
+
+      expect(await writing).toBe(true);
+      expect(await deleting).toBe(true);
+      // The deletion waits for the commit, so a read meanwhile still sees the table
+      expect(await reading).toBe(1);
+      expect(await db.get('t', 'k1')).toBeUndefined();
+
+      await db.write('t', 'k50', 50);
+      expect(await db.getTableSize('t')).toBe(1);
+
+      await db.close();
+      db = new PikoDB({ databaseDirectory: testDir });
+      await db.start();
+
+      expect(await db.get('t')).toEqual([['k50', 50]]);
+    });
+
     test('It should handle deleting non-existent table', async () => {
       const result = await db.deleteTable('non-existent');
       expect(result).toBe(true); // Should succeed gracefully
@@ -2540,4 +2663,4699 @@ describe('PikoDB', () => {
       await durableDb.close();
     });
   });
+
+  describe('Append-Only Log', () => {
+    test('It should append writes to the table log instead of rewriting the table file', async () => {
+      const logDb = new PikoDB({
+        databaseDirectory: testDir,
+        appendOnly: true
+      });
+      await logDb.start();
+
+      await logDb.write('events', 'e1', { type: 'click' });
+      await logDb.write('events', 'e2', { type: 'view' });
+
+      expect(existsSync(join(testDir, 'events'))).toBe(false);
+
+      const log = await readFile(join(testDir, '.events.log'), 'utf8');
+      const lines = log.trim().split('\n');
+      expect(lines).toHaveLength(2);
+      expect(JSON.parse(lines[0])[0]).toBe('e1');
+      expect(JSON.parse(lines[1])[0]).toBe('e2');
+    });
+
+    test('It should replay the log when loading a table', async () => {
+      const logDb = new PikoDB({
+        databaseDirectory: testDir,
+        appendOnly: true
+      });
+      await logDb.start();
+
+      await logDb.write('events', 'e1', { type: 'click' });
+      await logDb.write('events', 'e2', { type: 'view' });
+      await logDb.write('events', 'e1', { type: 'scroll' });
+      await logDb.delete('events', 'e2');
+
+      const newDb = new PikoDB({
+        databaseDirectory: testDir,
+        appendOnly: true
+      });
+      await newDb.start();
+
+      expect(newDb.listTables()).toContain('events');
+      expect(await newDb.get('events')).toEqual([['e1', { type: 'scroll' }]]);
+    });
+
+    test('It should compact the log into the table file', async () => {
+      const logDb = new PikoDB({
+        databaseDirectory: testDir,
+        appendOnly: true
+      });
+      await logDb.start();
+
+      await logDb.write('events', 'e1', { type: 'click' });
+      await logDb.write('events', 'e2', { type: 'view' });
+      await logDb.delete('events', 'e2');
+
+      await logDb.compact('events');
+
+      expect(existsSync(join(testDir, '.events.log'))).toBe(false);
+      expect(existsSync(join(testDir, 'events'))).toBe(true);
+
+      await logDb.write('events', 'e3', { type: 'drag' });
+
+      const newDb = new PikoDB({
+        databaseDirectory: testDir,
+        appendOnly: true
+      });
+      await newDb.start();
+
+      expect(await newDb.get('events')).toEqual([
+        ['e1', { type: 'click' }],
+        ['e3', { type: 'drag' }]
+      ]);
+    });
+
+    test('It should compact automatically once the threshold is reached', async () => {
+      const logDb = new PikoDB({
+        databaseDirectory: testDir,
+        appendOnly: true,
+        compactionThreshold: 5
+      });
+      await logDb.start();
+
+      for (let i = 0; i < 5; i++)
+        await logDb.write('events', `e${i}`, { index: i });
+
+      // Compaction runs in the background; closing waits for it
+      await logDb.close();
+
+      expect(existsSync(join(testDir, '.events.log'))).toBe(false);
+
+      const newDb = new PikoDB({ databaseDirectory: testDir });
+      await newDb.start();
+      expect(await newDb.getTableSize('events')).toBe(5);
+    });
+
+    test('It should discard a torn final log entry', async () => {
+      const logDb = new PikoDB({
+        databaseDirectory: testDir,
+        appendOnly: true
+      });
+      await logDb.start();
+
+      await logDb.write('events', 'e1', { type: 'click' });
+
+      const logPath = join(testDir, '.events.log');
+      const log = await readFile(logPath, 'utf8');
+      await writeFile(logPath, `${log}["e2",{"d":{"ty`, 'utf8');
+
+      const newDb = new PikoDB({
+        databaseDirectory: testDir,
+        appendOnly: true
+      });
+      await newDb.start();
+
+      expect(await newDb.get('events')).toEqual([['e1', { type: 'click' }]]);
+      expect(await readFile(logPath, 'utf8')).toBe(log);
+
+      await newDb.write('events', 'e3', { type: 'drag' });
+
+      const reloadedDb = new PikoDB({ databaseDirectory: testDir });
+      await reloadedDb.start();
+      expect(await reloadedDb.getTableSize('events')).toBe(2);
+    });
+
+    test('It should remove the log when deleting a table', async () => {
+      const logDb = new PikoDB({
+        databaseDirectory: testDir,
+        appendOnly: true
+      });
+      await logDb.start();
+
+      await logDb.write('events', 'e1', { type: 'click' });
+      await logDb.deleteTable('events');
+
+      expect(existsSync(join(testDir, '.events.log'))).toBe(false);
+      expect(logDb.listTables()).not.toContain('events');
+    });
+
+    test('It should compact all logs on close', async () => {
+      const logDb = new PikoDB({
+        databaseDirectory: testDir,
+        appendOnly: true
+      });
+      await logDb.start();
+
+      await logDb.write('events', 'e1', { type: 'click' });
+      await logDb.write('users', 'u1', { name: 'Alice' });
+      await logDb.close();
+
+      expect(existsSync(join(testDir, '.events.log'))).toBe(false);
+      expect(existsSync(join(testDir, '.users.log'))).toBe(false);
+      expect(existsSync(join(testDir, 'events'))).toBe(true);
+      expect(existsSync(join(testDir, 'users'))).toBe(true);
+    });
+
+    test('It should log expired record cleanups', async () => {
+      const logDb = new PikoDB({
+        databaseDirectory: testDir,
+        appendOnly: true
+      });
+      await logDb.start();
+
+      await logDb.write('sessions', 's1', { userId: 'u1' }, Date.now() + 10);
+      await logDb.write('sessions', 's2', { userId: 'u2' });
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      expect(await logDb.cleanupExpired('sessions')).toBe(1);
+
+      const log = await readFile(join(testDir, '.sessions.log'), 'utf8');
+      expect(log.trim().split('\n').pop()).toBe('["s1"]');
+    });
+
+    test('It should replay leftover logs when append-only mode is disabled', async () => {
+      const logDb = new PikoDB({
+        databaseDirectory: testDir,
+        appendOnly: true
+      });
+      await logDb.start();
+      await logDb.write('events', 'e1', { type: 'click' });
+
+      const snapshotDb = new PikoDB({ databaseDirectory: testDir });
+      await snapshotDb.start();
+
+      expect(await snapshotDb.get('events', 'e1')).toEqual({ type: 'click' });
+
+      await snapshotDb.close();
+      expect(existsSync(join(testDir, '.events.log'))).toBe(false);
+    });
+  });
+
+  describe('Group Commit', () => {
+    /**
+     * Count the persists of a table, as the renames of its temp files into place.
+     */
+    const countPersists = (tableName: string) => {
+      const tablePath = join(testDir, tableName);
+      let persists = 0;
+
+      fsRecorder.intercept = (operation) => {
+        if (operation.type === 'rename' && operation.to === tablePath)
+          persists++;
+      };
+
+      return () => persists;
+    };
+
+    test('It should coalesce concurrent writes to the same table into one persist', async () => {
+      const persists = countPersists('events');
+
+      const results = await Promise.all(
+        Array.from({ length: 200 }, (_, i) =>
+          db.write('events', `event${i}`, { index: i })
+        )
+      );
+
+      expect(results.every((result) => result === true)).toBe(true);
+      expect(persists()).toBe(1);
+      expect(await db.getTableSize('events')).toBe(200);
+    });
+
+    test('It should batch writes arriving during an in-flight persist into the next one', async () => {
+      const persists = countPersists('events');
+
+      const first = db.write('events', 'first', { index: 0 });
+
+      // Let the first persist start before the next writes arrive
+      await new Promise((resolve) => setImmediate(resolve));
+
+      const rest = Array.from({ length: 50 }, (_, i) =>
+        db.write('events', `event${i}`, { index: i })
+      );
+
+      await Promise.all([first, ...rest]);
+
+      expect(persists()).toBe(2);
+    });
+
+    test('It should resolve each write only after its change is on disk', async () => {
+      const filePath = join(testDir, 'events');
+
+      await Promise.all(
+        Array.from({ length: 50 }, async (_, i) => {
+          await db.write('events', `event${i}`, { index: i });
+
+          const fileContent = await readFile(filePath, 'utf8');
+          expect(fileContent).toContain(`"event${i}"`);
+        })
+      );
+    });
+
+    test('It should coalesce concurrent log appends in append-only mode', async () => {
+      const logDb = new PikoDB({
+        databaseDirectory: testDir,
+        appendOnly: true
+      });
+      await logDb.start();
+
+      await Promise.all(
+        Array.from({ length: 100 }, (_, i) =>
+          logDb.write('events', `event${i % 10}`, { index: i })
+        )
+      );
+
+      // One append, holding only the latest state of each changed key
+      const log = await readFile(join(testDir, '.events.log'), 'utf8');
+      expect(log.trim().split('\n')).toHaveLength(10);
+
+      const newDb = new PikoDB({ databaseDirectory: testDir });
+      await newDb.start();
+      expect(await newDb.get('events', 'event3')).toEqual({ index: 93 });
+    });
+
+    test('It should reject every batched write when the persist fails', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      fsRecorder.intercept = (operation) => {
+        if (operation.type !== 'write') return;
+
+        fsRecorder.intercept = null;
+        throw new Error('Disk full');
+      };
+
+      const results = await Promise.all(
+        Array.from({ length: 10 }, (_, i) =>
+          db.write('events', `event${i}`, { index: i })
+        )
+      );
+
+      expect(results.every((result) => result === false)).toBe(true);
+      expect(await db.write('events', 'after', { ok: true })).toBe(true);
+      vi.restoreAllMocks();
+    });
+  });
+
+  describe('Write Ordering', () => {
+    /**
+     * Delay every write of a temp file of the table by a random few milliseconds, tracking
+     * how many of them are in flight (from the write until the rename into place) at once.
+     */
+    const delayTempWrites = () => {
+      const tablePath = join(testDir, 'ordering');
+      let inFlight = 0;
+      let maxInFlight = 0;
+
+      fsRecorder.intercept = async (operation) => {
+        if (
+          operation.type === 'write' &&
+          operation.path.startsWith(`${tablePath}.tmp.`)
+        ) {
+          inFlight++;
+          maxInFlight = Math.max(maxInFlight, inFlight);
+          await new Promise((resolve) =>
+            setTimeout(resolve, Math.random() * 5)
+          );
+        } else if (operation.type === 'rename' && operation.to === tablePath)
+          inFlight--;
+      };
+
+      return { maxInFlight: () => maxInFlight };
+    };
+
+    test('It should read back the last acknowledged write after overlapping writes', async () => {
+      delayTempWrites();
+
+      const writes: Promise<boolean>[] = [];
+      for (let i = 0; i < 100; i++) {
+        writes.push(db.write('ordering', 'counter', { value: i }));
+        if (i % 7 === 0) await new Promise((resolve) => setImmediate(resolve));
+      }
+
+      expect((await Promise.all(writes)).every(Boolean)).toBe(true);
+
+      const newDb = new PikoDB({ databaseDirectory: testDir });
+      await newDb.start();
+      expect(await newDb.get('ordering', 'counter')).toEqual({ value: 99 });
+    });
+
+    test('It should never run two persists of the same table at once', async () => {
+      const tracker = delayTempWrites();
+
+      const operations: Promise<unknown>[] = [];
+      for (let i = 0; i < 60; i++) {
+        operations.push(db.write('ordering', `key${i % 10}`, { value: i }));
+        if (i % 5 === 0) operations.push(db.delete('ordering', `key${i % 3}`));
+        if (i % 20 === 0) operations.push(db.flush());
+        if (i % 4 === 0) await new Promise((resolve) => setImmediate(resolve));
+      }
+
+      await Promise.all(operations);
+
+      expect(tracker.maxInFlight()).toBe(1);
+    });
+
+    test('It should persist exactly the in-memory state after mixed concurrent operations', async () => {
+      delayTempWrites();
+
+      const operations: Promise<unknown>[] = [];
+      for (let i = 0; i < 200; i++) {
+        const key = `key${Math.floor(Math.random() * 20)}`;
+        if (Math.random() < 0.3) operations.push(db.delete('ordering', key));
+        else operations.push(db.write('ordering', key, { value: i }));
+        if (i % 9 === 0) await new Promise((resolve) => setImmediate(resolve));
+      }
+
+      await Promise.all(operations);
+
+      const expected = await db.get('ordering');
+
+      const newDb = new PikoDB({ databaseDirectory: testDir });
+      await newDb.start();
+      expect(await newDb.get('ordering')).toEqual(expected);
+    });
+
+    test('It should persist exactly the in-memory state with concurrent compactions', async () => {
+      const logDb = new PikoDB({
+        databaseDirectory: testDir,
+        appendOnly: true,
+        compactionThreshold: 10
+      });
+      await logDb.start();
+      delayTempWrites();
+
+      const operations: Promise<unknown>[] = [];
+      for (let i = 0; i < 100; i++) {
+        operations.push(logDb.write('ordering', `key${i % 15}`, { value: i }));
+        if (i % 6 === 0)
+          operations.push(logDb.delete('ordering', `key${i % 4}`));
+        if (i % 25 === 0) operations.push(logDb.compact('ordering'));
+        if (i % 3 === 0) await new Promise((resolve) => setImmediate(resolve));
+      }
+
+      await Promise.all(operations);
+
+      const expected = await logDb.get('ordering');
+      await logDb.close();
+
+      const newDb = new PikoDB({ databaseDirectory: testDir });
+      await newDb.start();
+      expect(await newDb.get('ordering')).toEqual(expected);
+    });
+
+    test('It should never let a slow persist overwrite a newer write', async () => {
+      await db.write('ordering', 'counter', { value: 1 });
+
+      // The next persist is slow to write its temp file
+      fsRecorder.intercept = async (operation) => {
+        if (operation.type !== 'write') return;
+
+        fsRecorder.intercept = null;
+        await new Promise((resolve) => setTimeout(resolve, 50));
+      };
+
+      const slow = db.write('ordering', 'counter', { value: 2 });
+      await new Promise((resolve) => setImmediate(resolve));
+      const fresh = db.write('ordering', 'counter', { value: 3 });
+
+      expect(await Promise.all([slow, fresh])).toEqual([true, true]);
+
+      const newDb = new PikoDB({ databaseDirectory: testDir });
+      await newDb.start();
+      expect(await newDb.get('ordering', 'counter')).toEqual({ value: 3 });
+
+      const leftovers = readdirSync(testDir).filter((file) =>
+        file.includes('.tmp.')
+      );
+      expect(leftovers).toEqual([]);
+    });
+  });
+
+  describe('Directory Lock', () => {
+    const writeLockFile = (owner: Record<string, unknown>) =>
+      writeFile(
+        join(testDir, '.lock'),
+        JSON.stringify({
+          id: 'other-owner',
+          pid: process.ppid,
+          hostname: hostname(),
+          acquiredAt: Date.now(),
+          heartbeat: Date.now(),
+          ...owner
+        }),
+        'utf8'
+      );
+
+    test('It should create a lock file on start and remove it on close', async () => {
+      const lockPath = join(testDir, '.lock');
+
+      const owner = JSON.parse(await readFile(lockPath, 'utf8'));
+      expect(owner.pid).toBe(process.pid);
+      expect(owner.hostname).toBe(hostname());
+
+      await db.close();
+      expect(existsSync(lockPath)).toBe(false);
+    });
+
+    test('It should refuse to start when another live process owns the directory', async () => {
+      await db.close();
+      await writeLockFile({});
+
+      const newDb = new PikoDB({ databaseDirectory: testDir });
+      const error = await newDb.start().catch((error) => error);
+
+      expect(error).toBeInstanceOf(DatabaseLockedError);
+      expect(error.owner.pid).toBe(process.ppid);
+      expect(error.message).toContain(`process ${process.ppid}`);
+    });
+
+    test('It should refuse to start while a database in another process is open', async () => {
+      const script = `
+        const { PikoDB } = require('./src/index.ts');
+        new PikoDB({ databaseDirectory: ${JSON.stringify(testDir)} })
+          .start()
+          .then(() => console.log('started'))
+          .catch((error) => console.log(error.name));
+      `;
+
+      const child = spawnSync(
+        process.execPath,
+        ['--import', 'tsx', '-e', script],
+        {
+          cwd: process.cwd(),
+          encoding: 'utf8'
+        }
+      );
+
+      expect(child.stdout.trim()).toBe('DatabaseLockedError');
+    });
+
+    test('It should take over a lock left by a process that no longer runs', async () => {
+      await db.close();
+      const deadPid = spawnSync(process.execPath, ['-e', '']).pid;
+      await writeLockFile({ pid: deadPid });
+
+      const newDb = new PikoDB({ databaseDirectory: testDir });
+      await newDb.start();
+
+      const owner = JSON.parse(await readFile(join(testDir, '.lock'), 'utf8'));
+      expect(owner.pid).toBe(process.pid);
+
+      await newDb.close();
+    });
+
+    test('It should take over a lock with a stale heartbeat', async () => {
+      await db.close();
+      await writeLockFile({
+        hostname: 'some-other-host',
+        heartbeat: Date.now() - 60000
+      });
+
+      const newDb = new PikoDB({ databaseDirectory: testDir });
+      await newDb.start();
+      await newDb.close();
+    });
+
+    test('It should not take over a stale lock another process took over first', async () => {
+      await db.close();
+      const lockPath = join(testDir, '.lock');
+      const deadPid = spawnSync(process.execPath, ['-e', '']).pid;
+      await writeLockFile({ pid: deadPid });
+
+      // Another process replaces the stale lock right before this one moves it away
+      fsRecorder.intercept = async (operation) => {
+        if (operation.type !== 'rename' || operation.from !== lockPath) return;
+
+        fsRecorder.intercept = null;
+        await writeLockFile({ id: 'winner' });
+      };
+
+      const newDb = new PikoDB({ databaseDirectory: testDir });
+      await expect(newDb.start()).rejects.toThrow(DatabaseLockedError);
+
+      // The lock of the winner is back in place, and nothing else was left behind
+      expect(JSON.parse(await readFile(lockPath, 'utf8')).id).toBe('winner');
+      expect(readdirSync(testDir)).toEqual(['.lock']);
+    });
+
+    test('It should stop writing once its lock was taken over', async () => {
+      await db.close();
+      const lockPath = join(testDir, '.lock');
+
+      db = new PikoDB({ databaseDirectory: testDir, lockStaleTimeout: 90 });
+      await db.start();
+      await db.write('users', 'user1', { name: 'Alice' });
+
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      await writeLockFile({ id: 'thief' });
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      await expect(db.write('users', 'user2', { name: 'Bob' })).rejects.toThrow(
+        DatabaseLockedError
+      );
+      await expect(db.delete('users', 'user1')).rejects.toThrow(
+        DatabaseLockedError
+      );
+      vi.restoreAllMocks();
+
+      // Reads keep working, and closing leaves the lock of the new owner alone
+      expect(await db.get('users', 'user1')).toEqual({ name: 'Alice' });
+      await db.close();
+      expect(JSON.parse(await readFile(lockPath, 'utf8')).id).toBe('thief');
+      await rm(lockPath);
+    });
+
+    test('It should respect a lock from another host with a fresh heartbeat', async () => {
+      await db.close();
+      await writeLockFile({ hostname: 'some-other-host', pid: 999999 });
+
+      const newDb = new PikoDB({ databaseDirectory: testDir });
+      await expect(newDb.start()).rejects.toThrow(DatabaseLockedError);
+    });
+
+    test('It should share the lock between instances in the same process', async () => {
+      const lockPath = join(testDir, '.lock');
+
+      const secondDb = new PikoDB({ databaseDirectory: testDir });
+      await secondDb.start();
+
+      await db.close();
+      expect(existsSync(lockPath)).toBe(true);
+
+      await secondDb.close();
+      expect(existsSync(lockPath)).toBe(false);
+    });
+
+    test('It should refresh the lock heartbeat while open', async () => {
+      await db.close();
+
+      const newDb = new PikoDB({
+        databaseDirectory: testDir,
+        lockStaleTimeout: 90
+      });
+      await newDb.start();
+
+      const lockPath = join(testDir, '.lock');
+      const { heartbeat } = JSON.parse(await readFile(lockPath, 'utf8'));
+
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      const refreshed = JSON.parse(await readFile(lockPath, 'utf8'));
+      expect(refreshed.heartbeat).toBeGreaterThan(heartbeat);
+
+      await newDb.close();
+    });
+
+    test('It should open a locked directory in read-only mode', async () => {
+      await db.write('users', 'user1', { name: 'Alice' });
+      await db.close();
+      await writeLockFile({});
+
+      const readOnlyDb = new PikoDB({
+        databaseDirectory: testDir,
+        readOnly: true
+      });
+      await readOnlyDb.start();
+
+      expect(await readOnlyDb.get('users', 'user1')).toEqual({ name: 'Alice' });
+      await expect(
+        readOnlyDb.write('users', 'user2', { name: 'Bob' })
+      ).rejects.toThrow('read-only');
+      await expect(readOnlyDb.delete('users', 'user1')).rejects.toThrow(
+        'read-only'
+      );
+      await expect(readOnlyDb.deleteTable('users')).rejects.toThrow(
+        'read-only'
+      );
+
+      await readOnlyDb.close();
+
+      // The other owner's lock is left untouched
+      const owner = JSON.parse(await readFile(join(testDir, '.lock'), 'utf8'));
+      expect(owner.id).toBe('other-owner');
+    });
+
+    test('It should not remove expired records from disk in read-only mode', async () => {
+      await db.write('sessions', 's1', { userId: 'u1' }, Date.now() + 10);
+      await db.close();
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      const readOnlyDb = new PikoDB({
+        databaseDirectory: testDir,
+        readOnly: true
+      });
+      await readOnlyDb.start();
+
+      expect(await readOnlyDb.get('sessions', 's1')).toBeUndefined();
+      await readOnlyDb.close();
+
+      const fileContent = await readFile(join(testDir, 'sessions'), 'utf8');
+      expect(fileContent).toContain('s1');
+    });
+  });
+
+  describe('Lazy Loading', () => {
+    const nextTick = () => new Promise((resolve) => setImmediate(resolve));
+
+    /**
+     * Collect the names of the tables loaded from now on, as their table files are read.
+     */
+    const watchLoads = () => {
+      const loads: string[] = [];
+
+      fsRecorder.intercept = (operation) => {
+        if (operation.type === 'read' && dirname(operation.path) === testDir)
+          loads.push(basename(operation.path));
+      };
+
+      return loads;
+    };
+
+    beforeEach(async () => {
+      await db.write('table-a', 'key1', { name: 'a' });
+      await db.write('table-b', 'key1', { name: 'b' });
+      await db.write('table-c', 'key1', { name: 'c' });
+      await db.close();
+    });
+
+    test('It should only discover tables on start', async () => {
+      const loads = watchLoads();
+      const lazyDb = new PikoDB({ databaseDirectory: testDir, lazyLoad: true });
+      await lazyDb.start();
+
+      expect(loads).toEqual([]);
+      expect(lazyDb.listTables().sort()).toEqual([
+        'table-a',
+        'table-b',
+        'table-c'
+      ]);
+
+      expect(await lazyDb.get('table-b', 'key1')).toEqual({ name: 'b' });
+      expect(await lazyDb.get('table-b', 'key1')).toEqual({ name: 'b' });
+      expect(loads).toEqual(['table-b']);
+
+      await lazyDb.close();
+    });
+
+    test('It should keep existing records when writing to an unloaded table', async () => {
+      const lazyDb = new PikoDB({ databaseDirectory: testDir, lazyLoad: true });
+      await lazyDb.start();
+
+      await lazyDb.write('table-a', 'key2', { name: 'a2' });
+      await lazyDb.close();
+
+      const newDb = new PikoDB({ databaseDirectory: testDir });
+      await newDb.start();
+      expect(await newDb.get('table-a')).toEqual([
+        ['key1', { name: 'a' }],
+        ['key2', { name: 'a2' }]
+      ]);
+      await newDb.close();
+    });
+
+    test('It should share a single load between concurrent reads', async () => {
+      const lazyDb = new PikoDB({ databaseDirectory: testDir, lazyLoad: true });
+      await lazyDb.start();
+
+      const loads = watchLoads();
+
+      await Promise.all([
+        lazyDb.get('table-a', 'key1'),
+        lazyDb.get('table-a'),
+        lazyDb.write('table-a', 'key2', { name: 'a2' })
+      ]);
+
+      expect(loads).toEqual(['table-a']);
+      expect(await lazyDb.getTableSize('table-a')).toBe(2);
+
+      await lazyDb.close();
+    });
+
+    test('It should evict the least recently used tables beyond maxLoadedTables', async () => {
+      const lazyDb = new PikoDB({
+        databaseDirectory: testDir,
+        lazyLoad: true,
+        maxLoadedTables: 2
+      });
+      await lazyDb.start();
+      const loads = watchLoads();
+
+      for (const tableName of ['table-a', 'table-b', 'table-a', 'table-c']) {
+        await lazyDb.get(tableName, 'key1');
+        await nextTick();
+      }
+      expect(loads).toEqual(['table-a', 'table-b', 'table-c']);
+
+      // table-b was evicted, so only it is loaded again
+      for (const tableName of ['table-a', 'table-c', 'table-b']) {
+        expect(await lazyDb.get(tableName, 'key1')).toEqual({
+          name: tableName.slice(-1)
+        });
+        await nextTick();
+      }
+      expect(loads).toEqual(['table-a', 'table-b', 'table-c', 'table-b']);
+      expect(lazyDb.listTables().sort()).toEqual([
+        'table-a',
+        'table-b',
+        'table-c'
+      ]);
+
+      // Which evicted table-a, the least recently used one
+      await lazyDb.get('table-c', 'key1');
+      await lazyDb.get('table-a', 'key1');
+      expect(loads.slice(4)).toEqual(['table-a']);
+
+      await lazyDb.close();
+    });
+
+    test('It should evict tables beyond maxMemoryBytes', async () => {
+      const lazyDb = new PikoDB({ databaseDirectory: testDir, lazyLoad: true });
+      await lazyDb.start();
+      await lazyDb.write('large', 'key1', { data: 'x'.repeat(10000) });
+      await lazyDb.close();
+
+      const budgetDb = new PikoDB({
+        databaseDirectory: testDir,
+        lazyLoad: true,
+        maxMemoryBytes: 5000
+      });
+      await budgetDb.start();
+      const loads = watchLoads();
+
+      // The most recently used table is kept even if it alone exceeds the budget
+      for (const tableName of [
+        'table-a',
+        'large',
+        'large',
+        'table-a',
+        'large'
+      ]) {
+        await budgetDb.get(tableName, 'key1');
+        await nextTick();
+      }
+      expect(loads).toEqual(['table-a', 'large', 'table-a', 'large']);
+
+      await budgetDb.close();
+    });
+
+    test('It should not evict tables with writes in flight', async () => {
+      const lazyDb = new PikoDB({
+        databaseDirectory: testDir,
+        lazyLoad: true,
+        maxLoadedTables: 1
+      });
+      await lazyDb.start();
+      const loads = watchLoads();
+      const watch = fsRecorder.intercept;
+
+      // Slow down persisting table-a
+      fsRecorder.intercept = async (operation) => {
+        await watch?.(operation);
+        if (
+          operation.type === 'write' &&
+          operation.path.startsWith(join(testDir, 'table-a.tmp.'))
+        )
+          await new Promise((resolve) => setTimeout(resolve, 30));
+      };
+
+      const write = lazyDb.write('table-a', 'key2', { name: 'a2' });
+      await lazyDb.get('table-b', 'key1');
+      await nextTick();
+
+      // table-a is still loaded while its write is in flight
+      expect(await lazyDb.get('table-a', 'key2')).toEqual({ name: 'a2' });
+      expect(loads).toEqual(['table-a', 'table-b']);
+
+      expect(await write).toBe(true);
+      await lazyDb.get('table-c', 'key1');
+      await nextTick();
+
+      // Now it is evicted, and reloaded with the write
+      expect(await lazyDb.get('table-a', 'key2')).toEqual({ name: 'a2' });
+      expect(loads).toEqual(['table-a', 'table-b', 'table-c', 'table-a']);
+
+      await lazyDb.close();
+    });
+
+    test('It should keep writes to evicted tables durable', async () => {
+      const lazyDb = new PikoDB({
+        databaseDirectory: testDir,
+        lazyLoad: true,
+        maxLoadedTables: 1
+      });
+      await lazyDb.start();
+
+      for (let i = 0; i < 20; i++) {
+        const table = ['table-a', 'table-b', 'table-c'][i % 3];
+        await lazyDb.write(table, `entry${i}`, { index: i });
+        if (i % 2 === 0) await nextTick();
+      }
+
+      await lazyDb.close();
+
+      const newDb = new PikoDB({ databaseDirectory: testDir });
+      await newDb.start();
+      expect(await newDb.getTableSize('table-a')).toBe(8);
+      expect(await newDb.getTableSize('table-b')).toBe(8);
+      expect(await newDb.getTableSize('table-c')).toBe(7);
+      await newDb.close();
+    });
+  });
+
+  describe('File Format', () => {
+    const readTable = async (instance: PikoDB, tableName: string) => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const result = await instance.get(tableName);
+      const loadError = errorSpy.mock.calls.find(([message]) =>
+        String(message).startsWith(`Failed to load table ${tableName}`)
+      )?.[1];
+      errorSpy.mockRestore();
+      return { result, loadError };
+    };
+
+    test('It should write a header with magic bytes, version, record count and checksum', async () => {
+      await db.write('users', 'user1', { name: 'Alice' });
+      await db.write('users', 'user2', { name: 'Bob' });
+
+      const buffer = await readFile(join(testDir, 'users'));
+      const payload = buffer.subarray(24);
+
+      expect(buffer.subarray(0, 4).toString('ascii')).toBe('PIKO');
+      expect(buffer.readUInt8(4)).toBe(2);
+      expect(buffer.readUInt8(5)).toBe(0);
+      expect(buffer.readUInt32LE(8)).toBe(2);
+      expect(buffer.readUInt32LE(12)).toBe(crc32(payload));
+      expect(Number(buffer.readBigUInt64LE(16))).toBe(payload.length);
+      expect(payload.toString('utf8').trimEnd().split('\n')).toHaveLength(2);
+    });
+
+    test('It should read legacy headerless JSON files', async () => {
+      await writeFile(
+        join(testDir, 'legacy'),
+        JSON.stringify([
+          ['key1', { d: { name: 'Alice' }, v: 3, t: 1700000000000, x: null }]
+        ]),
+        'utf8'
+      );
+
+      const newDb = new PikoDB({ databaseDirectory: testDir });
+      await newDb.start();
+
+      expect(await newDb.get('legacy', 'key1')).toEqual({ name: 'Alice' });
+
+      // Legacy files are upgraded on the next write
+      await newDb.write('legacy', 'key2', { name: 'Bob' });
+      const buffer = await readFile(join(testDir, 'legacy'));
+      expect(buffer.subarray(0, 4).toString('ascii')).toBe('PIKO');
+
+      await newDb.close();
+    });
+
+    test('It should detect truncated table files', async () => {
+      await db.write('users', 'user1', { name: 'Alice' });
+
+      const filePath = join(testDir, 'users');
+      const buffer = await readFile(filePath);
+      await writeFile(filePath, buffer.subarray(0, buffer.length - 5));
+
+      const newDb = new PikoDB({ databaseDirectory: testDir, lazyLoad: true });
+      await newDb.start();
+
+      const { loadError } = await readTable(newDb, 'users');
+      expect(loadError?.message).toContain('truncated');
+    });
+
+    test('It should detect payload corruption through the checksum', async () => {
+      await db.write('users', 'user1', { name: 'Alice' });
+
+      const filePath = join(testDir, 'users');
+      const buffer = await readFile(filePath);
+      const index = buffer.indexOf('Alice');
+      buffer.write('Alicf', index, 'utf8');
+      await writeFile(filePath, buffer);
+
+      const newDb = new PikoDB({ databaseDirectory: testDir, lazyLoad: true });
+      await newDb.start();
+
+      const { loadError } = await readTable(newDb, 'users');
+      expect(loadError?.message).toContain('checksum mismatch');
+    });
+
+    test('It should refuse files written by a newer format version', async () => {
+      await db.write('users', 'user1', { name: 'Alice' });
+
+      const filePath = join(testDir, 'users');
+      const buffer = await readFile(filePath);
+      buffer.writeUInt8(99, 4);
+      await writeFile(filePath, buffer);
+
+      const newDb = new PikoDB({ databaseDirectory: testDir, lazyLoad: true });
+      await newDb.start();
+
+      const { loadError } = await readTable(newDb, 'users');
+      expect(loadError?.message).toContain('version 99 is not supported');
+    });
+  });
+
+  describe('Corruption Quarantine', () => {
+    const corruptTable = async (tableName: string) => {
+      await db.write(tableName, 'key1', { name: 'Alice' });
+      await db.close();
+      await writeFile(join(testDir, tableName), 'invalid json data', 'utf8');
+    };
+
+    const quarantinedFiles = (tableName: string) =>
+      readdirSync(testDir).filter((file) =>
+        file.startsWith(`.${tableName}.corrupt.`)
+      );
+
+    beforeEach(() => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    test('It should move a corrupted table file to quarantine', async () => {
+      await corruptTable('users');
+
+      const newDb = new PikoDB({ databaseDirectory: testDir });
+      await newDb.start();
+
+      expect(existsSync(join(testDir, 'users'))).toBe(false);
+
+      const [quarantined] = quarantinedFiles('users');
+      expect(await readFile(join(testDir, quarantined), 'utf8')).toBe(
+        'invalid json data'
+      );
+
+      expect(await newDb.get('users')).toEqual([]);
+      await newDb.close();
+    });
+
+    test('It should keep a table it cannot read unloaded instead of loading it empty', async () => {
+      const options = { databaseDirectory: testDir, shards: 2 };
+      let shardedDb = new PikoDB(options);
+      await shardedDb.start();
+      for (let i = 0; i < 20; i++)
+        await shardedDb.write('users', `user${i}`, { index: i });
+      await shardedDb.close();
+
+      const shardPath = join(testDir, 'users', '01');
+      const shards = await Promise.all(
+        ['00', '01'].map((shard) => readFile(join(testDir, 'users', shard)))
+      );
+
+      fsRecorder.intercept = (operation) => {
+        if (operation.type === 'read' && operation.path === shardPath)
+          throw Object.assign(new Error('EIO: i/o error, read'), {
+            code: 'EIO'
+          });
+      };
+
+      await expect(new PikoDB(options).start()).rejects.toThrow('EIO');
+
+      shardedDb = new PikoDB({ ...options, lazyLoad: true });
+      await shardedDb.start();
+
+      expect(await shardedDb.get('users')).toEqual([]);
+      expect(await shardedDb.write('users', 'user20', { index: 20 })).toBe(
+        false
+      );
+      expect(shardedDb.listTables()).toEqual(['users']);
+      await shardedDb.close();
+
+      // Neither shard was overwritten or quarantined
+      expect(
+        await Promise.all(
+          ['00', '01'].map((shard) => readFile(join(testDir, 'users', shard)))
+        )
+      ).toEqual(shards);
+      expect(quarantinedFiles('users')).toEqual([]);
+
+      // Once the file can be read again, the table loads in full
+      fsRecorder.intercept = null;
+      shardedDb = new PikoDB(options);
+      await shardedDb.start();
+      expect(await shardedDb.getTableSize('users')).toBe(20);
+      await shardedDb.close();
+    });
+
+    test('It should keep a corrupted table unavailable for writes', async () => {
+      await corruptTable('users');
+
+      const newDb = new PikoDB({ databaseDirectory: testDir });
+      await newDb.start();
+
+      await expect(
+        newDb.write('users', 'key2', { name: 'Bob' })
+      ).rejects.toThrow(TableCorruptedError);
+      await expect(newDb.delete('users', 'key1')).rejects.toThrow(
+        TableCorruptedError
+      );
+      await expect(newDb.compact('users')).rejects.toThrow(TableCorruptedError);
+
+      // Closing must not write an empty table in place of the corrupted one
+      await newDb.close();
+      expect(existsSync(join(testDir, 'users'))).toBe(false);
+    });
+
+    test('It should report corruption through the onCorruption callback', async () => {
+      await corruptTable('users');
+
+      const onCorruption = vi.fn();
+      const newDb = new PikoDB({ databaseDirectory: testDir, onCorruption });
+      await newDb.start();
+
+      expect(onCorruption).toHaveBeenCalledTimes(1);
+
+      const error = onCorruption.mock.calls[0][0];
+      expect(error).toBeInstanceOf(TableCorruptedError);
+      expect(error.tableName).toBe('users');
+      expect(error.quarantinePath).toBe(
+        join(testDir, quarantinedFiles('users')[0])
+      );
+      expect(error.cause).toBeInstanceOf(SyntaxError);
+
+      await newDb.close();
+    });
+
+    test('It should fail start when failOnCorruption is enabled', async () => {
+      await corruptTable('users');
+
+      const newDb = new PikoDB({
+        databaseDirectory: testDir,
+        failOnCorruption: true
+      });
+
+      await expect(newDb.start()).rejects.toThrow(TableCorruptedError);
+      expect(quarantinedFiles('users')).toHaveLength(1);
+
+      // The failed start released the directory lock
+      const retryDb = new PikoDB({ databaseDirectory: testDir });
+      await retryDb.start();
+      await retryDb.close();
+    });
+
+    test('It should make a corrupted table writable again after deleting it', async () => {
+      await corruptTable('users');
+
+      const newDb = new PikoDB({ databaseDirectory: testDir });
+      await newDb.start();
+
+      await newDb.deleteTable('users');
+      expect(await newDb.write('users', 'key2', { name: 'Bob' })).toBe(true);
+      expect(await newDb.get('users')).toEqual([['key2', { name: 'Bob' }]]);
+
+      // The quarantined file is kept for manual recovery
+      expect(quarantinedFiles('users')).toHaveLength(1);
+
+      await newDb.close();
+    });
+
+    test('It should quarantine a corrupted table log', async () => {
+      await db.close();
+
+      const logDb = new PikoDB({
+        databaseDirectory: testDir,
+        appendOnly: true
+      });
+      await logDb.start();
+      await logDb.write('events', 'e1', { type: 'click' });
+      await logDb.write('events', 'e2', { type: 'view' });
+      await logDb.compact('events');
+      await logDb.write('events', 'e3', { type: 'drag' });
+      await logDb.write('events', 'e4', { type: 'drop' });
+
+      const logPath = join(testDir, '.events.log');
+      const [first, second] = (await readFile(logPath, 'utf8')).split('\n');
+      await writeFile(logPath, `${first}\n{garbage\n${second}\n`, 'utf8');
+
+      const onCorruption = vi.fn();
+      const newDb = new PikoDB({
+        databaseDirectory: testDir,
+        appendOnly: true,
+        onCorruption
+      });
+      await newDb.start();
+
+      expect(existsSync(logPath)).toBe(false);
+      expect(existsSync(join(testDir, 'events'))).toBe(true);
+      expect(onCorruption.mock.calls[0][0].quarantinePath).toContain(
+        '.events.log.corrupt.'
+      );
+      await expect(
+        newDb.write('events', 'e5', { type: 'scroll' })
+      ).rejects.toThrow(TableCorruptedError);
+    });
+
+    test('It should leave corrupted files in place in read-only mode', async () => {
+      await corruptTable('users');
+
+      const onCorruption = vi.fn();
+      const readOnlyDb = new PikoDB({
+        databaseDirectory: testDir,
+        readOnly: true,
+        onCorruption
+      });
+      await readOnlyDb.start();
+
+      expect(existsSync(join(testDir, 'users'))).toBe(true);
+      expect(onCorruption.mock.calls[0][0].quarantinePath).toBeNull();
+
+      await readOnlyDb.close();
+    });
+  });
+
+  describe('Table Compression', () => {
+    const telemetry = (count: number) =>
+      Array.from({ length: count }, (_, i) => ({
+        sensor: 'DHT22',
+        location: 'warehouse-north',
+        temperature: 20 + (i % 5),
+        humidity: 40 + (i % 3)
+      }));
+
+    const writeTelemetry = async (instance: PikoDB, tableName: string) => {
+      for (const [i, reading] of telemetry(50).entries())
+        await instance.write(tableName, `reading${i}`, reading);
+    };
+
+    test.each([
+      ['gzip', 1],
+      ['deflate', 2],
+      ['brotli', 3]
+    ] as const)(
+      'It should compress table files with %s and detect the codec on load',
+      async (compression, flags) => {
+        const compressedDb = new PikoDB({
+          databaseDirectory: testDir,
+          compression
+        });
+        await compressedDb.start();
+        await writeTelemetry(compressedDb, 'telemetry');
+        await compressedDb.close();
+
+        const buffer = await readFile(join(testDir, 'telemetry'));
+        expect(buffer.readUInt8(5)).toBe(flags);
+        expect(buffer.readUInt32LE(8)).toBe(50);
+        expect(buffer.readUInt32LE(12)).toBe(crc32(buffer.subarray(24)));
+
+        // Loaded without the option: the codec comes from the file header
+        const newDb = new PikoDB({
+          databaseDirectory: testDir,
+          lazyLoad: true
+        });
+        await newDb.start();
+
+        expect(await newDb.get('telemetry', 'reading7')).toEqual(
+          telemetry(50)[7]
+        );
+        expect(await newDb.getTableSize('telemetry')).toBe(50);
+
+        await newDb.close();
+      }
+    );
+
+    test('It should use per-table compression over the global option', async () => {
+      const compressedDb = new PikoDB({
+        databaseDirectory: testDir,
+        compression: 'gzip',
+        tables: { telemetry: { compression: 'brotli' } }
+      });
+      await compressedDb.start();
+
+      await writeTelemetry(compressedDb, 'telemetry');
+      await compressedDb.write('users', 'user1', { name: 'Alice' });
+
+      expect((await compressedDb.getCompressionStats('telemetry'))?.codec).toBe(
+        'brotli'
+      );
+      expect((await compressedDb.getCompressionStats('users'))?.codec).toBe(
+        'gzip'
+      );
+
+      await compressedDb.close();
+    });
+
+    test('It should report the achieved compression ratio', async () => {
+      const compressedDb = new PikoDB({
+        databaseDirectory: testDir,
+        compression: 'gzip'
+      });
+      await compressedDb.start();
+      await writeTelemetry(compressedDb, 'telemetry');
+
+      const stats = await compressedDb.getCompressionStats('telemetry');
+      const buffer = await readFile(join(testDir, 'telemetry'));
+
+      expect(stats?.codec).toBe('gzip');
+      expect(stats?.compressedBytes).toBe(buffer.length - 24);
+      expect(stats?.uncompressedBytes).toBeGreaterThan(
+        stats?.compressedBytes || 0
+      );
+      expect(stats?.ratio).toBeCloseTo(
+        (stats?.uncompressedBytes || 0) / (stats?.compressedBytes || 1)
+      );
+      expect(stats?.ratio).toBeGreaterThan(5);
+
+      await compressedDb.close();
+
+      // The same stats are reported after loading the file again
+      const newDb = new PikoDB({ databaseDirectory: testDir });
+      await newDb.start();
+      expect(await newDb.getCompressionStats('telemetry')).toEqual(stats);
+      await newDb.close();
+    });
+
+    test('It should report a ratio of 1 for uncompressed tables', async () => {
+      await db.write('users', 'user1', { name: 'Alice' });
+
+      const stats = await db.getCompressionStats('users');
+
+      expect(stats?.codec).toBe('none');
+      expect(stats?.compressedBytes).toBe(stats?.uncompressedBytes);
+      expect(stats?.ratio).toBe(1);
+    });
+
+    test('It should report no stats for tables without a table file', async () => {
+      expect(await db.getCompressionStats('nonexistent')).toBeNull();
+
+      const appendDb = new PikoDB({
+        databaseDirectory: testDir,
+        appendOnly: true,
+        compression: 'gzip'
+      });
+      await appendDb.start();
+      await appendDb.write('events', 'e1', { type: 'click' });
+
+      expect(await appendDb.getCompressionStats('events')).toBeNull();
+
+      await appendDb.compact('events');
+      expect((await appendDb.getCompressionStats('events'))?.codec).toBe(
+        'gzip'
+      );
+
+      await appendDb.close();
+    });
+
+    test('It should rewrite tables with a new codec on their next write', async () => {
+      await writeTelemetry(db, 'telemetry');
+      await db.close();
+
+      const compressedDb = new PikoDB({
+        databaseDirectory: testDir,
+        compression: 'deflate'
+      });
+      await compressedDb.start();
+
+      expect((await compressedDb.getCompressionStats('telemetry'))?.codec).toBe(
+        'none'
+      );
+
+      await compressedDb.write('telemetry', 'reading50', telemetry(1)[0]);
+
+      expect((await compressedDb.getCompressionStats('telemetry'))?.codec).toBe(
+        'deflate'
+      );
+      expect(await compressedDb.getTableSize('telemetry')).toBe(51);
+
+      await compressedDb.close();
+    });
+
+    test('It should quarantine table files that fail to decompress', async () => {
+      const payload = Buffer.from('not gzip data');
+      const header = Buffer.alloc(24);
+      header.write('PIKO', 0, 'ascii');
+      header.writeUInt8(1, 4);
+      header.writeUInt8(1, 5);
+      header.writeUInt32LE(1, 8);
+      header.writeUInt32LE(crc32(payload), 12);
+      header.writeBigUInt64LE(BigInt(payload.length), 16);
+      await writeFile(
+        join(testDir, 'broken'),
+        Buffer.concat([header, payload])
+      );
+
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const onCorruption = vi.fn();
+      const newDb = new PikoDB({ databaseDirectory: testDir, onCorruption });
+      await newDb.start();
+      vi.restoreAllMocks();
+
+      expect(onCorruption).toHaveBeenCalledTimes(1);
+      expect(onCorruption.mock.calls[0][0].cause.message).toContain(
+        'Failed to decompress gzip table file'
+      );
+      expect(existsSync(join(testDir, 'broken'))).toBe(false);
+
+      await newDb.close();
+    });
+
+    test('It should reject unknown compression codecs', () => {
+      expect(
+        () =>
+          new PikoDB({
+            databaseDirectory: testDir,
+            compression: 'zstd' as any
+          })
+      ).toThrow('Compression must be one of');
+
+      expect(
+        () =>
+          new PikoDB({
+            databaseDirectory: testDir,
+            tables: { users: { compression: 'lz4' as any } }
+          })
+      ).toThrow('Compression must be one of');
+    });
+  });
+
+  describe('Encryption at Rest', () => {
+    const key = randomBytes(32);
+    const newKey = randomBytes(32);
+
+    const openEncrypted = async (options: Record<string, any> = {}) => {
+      const instance = new PikoDB({
+        databaseDirectory: testDir,
+        encryption: { key },
+        ...options
+      });
+      await instance.start();
+      return instance;
+    };
+
+    test('It should encrypt table files and read them back with the key', async () => {
+      const encryptedDb = await openEncrypted();
+      await encryptedDb.write('users', 'user1', { email: 'alice@example.com' });
+      await encryptedDb.close();
+
+      const buffer = await readFile(join(testDir, 'users'));
+      expect(buffer.readUInt8(5) & 0b100).toBe(0b100);
+      expect(buffer.includes('alice@example.com')).toBe(false);
+      expect(buffer.readUInt32LE(12)).toBe(crc32(buffer.subarray(24)));
+
+      const newDb = await openEncrypted();
+      expect(await newDb.get('users', 'user1')).toEqual({
+        email: 'alice@example.com'
+      });
+      await newDb.close();
+    });
+
+    test('It should combine encryption with compression', async () => {
+      const encryptedDb = await openEncrypted({ compression: 'gzip' });
+      await encryptedDb.write('users', 'user1', { email: 'alice@example.com' });
+      await encryptedDb.close();
+
+      const buffer = await readFile(join(testDir, 'users'));
+      expect(buffer.readUInt8(5)).toBe(0b101);
+
+      const newDb = await openEncrypted();
+      expect(await newDb.get('users', 'user1')).toEqual({
+        email: 'alice@example.com'
+      });
+      expect((await newDb.getCompressionStats('users'))?.codec).toBe('gzip');
+      await newDb.close();
+    });
+
+    test('It should fetch the key from a key provider on start', async () => {
+      const keyProvider = vi.fn(async () => key);
+
+      const encryptedDb = new PikoDB({
+        databaseDirectory: testDir,
+        encryption: { keyProvider }
+      });
+      await encryptedDb.start();
+      await encryptedDb.write('users', 'user1', { name: 'Alice' });
+      await encryptedDb.close();
+
+      expect(keyProvider).toHaveBeenCalledTimes(1);
+
+      const newDb = await openEncrypted();
+      expect(await newDb.get('users', 'user1')).toEqual({ name: 'Alice' });
+      await newDb.close();
+    });
+
+    test('It should encrypt append-only log entries', async () => {
+      const encryptedDb = await openEncrypted({ appendOnly: true });
+      await encryptedDb.write('users', 'user1', { email: 'alice@example.com' });
+      await encryptedDb.write('users', 'user2', { email: 'bob@example.com' });
+      await encryptedDb.delete('users', 'user2');
+
+      const log = await readFile(join(testDir, '.users.log'), 'utf8');
+      expect(log.split('\n').filter(Boolean)).toHaveLength(3);
+      expect(log).not.toContain('example.com');
+
+      // Reopen without compacting, replaying the encrypted log
+      const newDb = await openEncrypted({ appendOnly: true });
+      expect(await newDb.get('users')).toEqual([
+        ['user1', { email: 'alice@example.com' }]
+      ]);
+
+      await newDb.close();
+      await encryptedDb.close();
+    });
+
+    test('It should refuse to load encrypted tables with the wrong key or no key', async () => {
+      const encryptedDb = await openEncrypted();
+      await encryptedDb.write('users', 'user1', { name: 'Alice' });
+      await encryptedDb.close();
+
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const wrongKeyDb = new PikoDB({
+        databaseDirectory: testDir,
+        encryption: { key: newKey }
+      });
+      const wrongKeyError = await wrongKeyDb.start().catch((error) => error);
+      expect(wrongKeyError).toBeInstanceOf(EncryptionKeyError);
+      expect(wrongKeyError.fingerprint).toMatch(/^[0-9a-f]{16}$/);
+
+      const noKeyDb = new PikoDB({ databaseDirectory: testDir });
+      const noKeyError = await noKeyDb.start().catch((error) => error);
+      expect(noKeyError).toBeInstanceOf(EncryptionKeyError);
+      expect(noKeyError.fingerprint).toBeNull();
+
+      vi.restoreAllMocks();
+
+      // The table is left intact rather than quarantined
+      expect(
+        readdirSync(testDir).some((file) => file.includes('corrupt'))
+      ).toBe(false);
+
+      const newDb = await openEncrypted();
+      expect(await newDb.get('users', 'user1')).toEqual({ name: 'Alice' });
+      await newDb.close();
+    });
+
+    test('It should quarantine encrypted tables that fail authentication', async () => {
+      const encryptedDb = await openEncrypted();
+      await encryptedDb.write('users', 'user1', { name: 'Alice' });
+      await encryptedDb.close();
+
+      // Flip a ciphertext bit and fix up the checksum, so only authentication catches it
+      const filePath = join(testDir, 'users');
+      const buffer = await readFile(filePath);
+      buffer[buffer.length - 1] ^= 1;
+      buffer.writeUInt32LE(crc32(buffer.subarray(24)), 12);
+      await writeFile(filePath, buffer);
+
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const onCorruption = vi.fn();
+      const newDb = await openEncrypted({ onCorruption });
+      vi.restoreAllMocks();
+
+      expect(onCorruption).toHaveBeenCalledTimes(1);
+      expect(onCorruption.mock.calls[0][0].cause.message).toContain(
+        'failed authentication'
+      );
+      expect(existsSync(filePath)).toBe(false);
+
+      await newDb.close();
+    });
+
+    test('It should re-encrypt all tables when rotating the key', async () => {
+      const encryptedDb = await openEncrypted({ appendOnly: true });
+      await encryptedDb.write('users', 'user1', { name: 'Alice' });
+      await encryptedDb.write('products', 'prod1', { name: 'Widget' });
+
+      await encryptedDb.rotateEncryptionKey(newKey);
+
+      // Logs are folded into the re-encrypted table files
+      expect(existsSync(join(testDir, '.users.log'))).toBe(false);
+      expect(existsSync(join(testDir, '.products.log'))).toBe(false);
+
+      // Writes after the rotation use the new key
+      await encryptedDb.write('users', 'user2', { name: 'Bob' });
+      await encryptedDb.close();
+
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const oldKeyDb = new PikoDB({
+        databaseDirectory: testDir,
+        encryption: { key }
+      });
+      await expect(oldKeyDb.start()).rejects.toThrow(EncryptionKeyError);
+      vi.restoreAllMocks();
+
+      const newDb = new PikoDB({
+        databaseDirectory: testDir,
+        encryption: { key: newKey }
+      });
+      await newDb.start();
+      expect(await newDb.get('users', 'user2')).toEqual({ name: 'Bob' });
+      expect(await newDb.get('products', 'prod1')).toEqual({ name: 'Widget' });
+      await newDb.close();
+    });
+
+    test('It should also rotate tables created while rotating the key', async () => {
+      const encryptedDb = await openEncrypted();
+      for (const tableName of ['users', 'products', 'orders'])
+        await encryptedDb.write(tableName, 'item1', { name: tableName });
+
+      const rotation = encryptedDb.rotateEncryptionKey(newKey);
+      await Promise.all([
+        encryptedDb.write('fresh', 'item1', { name: 'fresh' }),
+        encryptedDb.write('fresher', 'item1', { name: 'fresher' }),
+        rotation
+      ]);
+
+      // Read every file with only the new key, without closing (as after a crash)
+      const newKeyDb = new PikoDB({
+        databaseDirectory: testDir,
+        encryption: { key: newKey },
+        readOnly: true
+      });
+      await newKeyDb.start();
+      for (const tableName of ['users', 'fresh', 'fresher'])
+        expect(await newKeyDb.get(tableName, 'item1')).toEqual({
+          name: tableName
+        });
+      await newKeyDb.close();
+      await encryptedDb.close();
+    });
+
+    test('It should enable encryption for an unencrypted database by rotating the key', async () => {
+      await db.write('users', 'user1', { email: 'alice@example.com' });
+
+      await db.rotateEncryptionKey(key);
+
+      const buffer = await readFile(join(testDir, 'users'));
+      expect(buffer.includes('alice@example.com')).toBe(false);
+
+      const newDb = await openEncrypted();
+      expect(await newDb.get('users', 'user1')).toEqual({
+        email: 'alice@example.com'
+      });
+      await newDb.close();
+    });
+
+    test('It should leave all tables on the old key if a rotation fails before renaming', async () => {
+      const encryptedDb = await openEncrypted();
+      await encryptedDb.write('users', 'user1', { name: 'Alice' });
+      await encryptedDb.write('products', 'prod1', { name: 'Widget' });
+
+      // The first table is staged, and staging the second one fails
+      const tablePaths = ['users', 'products'].map((name) =>
+        join(testDir, name)
+      );
+      let stagedTables = 0;
+      fsRecorder.intercept = (operation) => {
+        if (
+          operation.type === 'write' &&
+          tablePaths.some((path) =>
+            operation.path.startsWith(`${path}.tmp.`)
+          ) &&
+          ++stagedTables === 2
+        )
+          throw new Error('Disk full');
+      };
+
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      await expect(encryptedDb.rotateEncryptionKey(newKey)).rejects.toThrow(
+        'Disk full'
+      );
+      vi.restoreAllMocks();
+      fsRecorder.intercept = null;
+
+      expect(readdirSync(testDir).some((file) => file.includes('.tmp.'))).toBe(
+        false
+      );
+
+      await encryptedDb.write('users', 'user2', { name: 'Bob' });
+      await encryptedDb.close();
+
+      const newDb = await openEncrypted();
+      expect(await newDb.getTableSize('users')).toBe(2);
+      expect(await newDb.get('products', 'prod1')).toEqual({ name: 'Widget' });
+      await newDb.close();
+    });
+
+    test('It should read tables encrypted with previous keys', async () => {
+      const encryptedDb = await openEncrypted();
+      await encryptedDb.write('users', 'user1', { name: 'Alice' });
+      await encryptedDb.close();
+
+      const newDb = new PikoDB({
+        databaseDirectory: testDir,
+        encryption: { key: newKey, previousKeys: [key] }
+      });
+      await newDb.start();
+
+      expect(await newDb.get('users', 'user1')).toEqual({ name: 'Alice' });
+
+      // The next write re-encrypts the table with the current key
+      await newDb.write('users', 'user2', { name: 'Bob' });
+      await newDb.close();
+
+      const currentKeyDb = new PikoDB({
+        databaseDirectory: testDir,
+        encryption: { key: newKey }
+      });
+      await currentKeyDb.start();
+      expect(await currentKeyDb.getTableSize('users')).toBe(2);
+      await currentKeyDb.close();
+    });
+
+    test('It should validate encryption options', async () => {
+      expect(
+        () =>
+          new PikoDB({
+            databaseDirectory: testDir,
+            encryption: { key: randomBytes(16) }
+          })
+      ).toThrow('Encryption key must be a 32-byte Buffer');
+
+      expect(
+        () => new PikoDB({ databaseDirectory: testDir, encryption: {} })
+      ).toThrow('Encryption requires a key or a keyProvider');
+
+      await expect(db.rotateEncryptionKey(randomBytes(8))).rejects.toThrow(
+        'Encryption key must be a 32-byte Buffer'
+      );
+
+      const readOnlyDb = new PikoDB({
+        databaseDirectory: testDir,
+        readOnly: true
+      });
+      await readOnlyDb.start();
+      await expect(readOnlyDb.rotateEncryptionKey(key)).rejects.toThrow(
+        'read-only mode'
+      );
+      await readOnlyDb.close();
+    });
+  });
+
+  describe('Sharded Tables', () => {
+    const openSharded = async (options: Record<string, any> = {}) => {
+      const instance = new PikoDB({
+        databaseDirectory: testDir,
+        shards: 16,
+        ...options
+      });
+      await instance.start();
+      return instance;
+    };
+
+    const readShards = (tableName: string) =>
+      readdirSync(join(testDir, tableName)).sort();
+
+    test('It should store a table as a directory of shard files', async () => {
+      const shardedDb = await openSharded();
+
+      for (let i = 0; i < 100; i++)
+        await shardedDb.write('users', `user${i}`, { index: i });
+
+      expect(readShards('users')).toEqual(
+        Array.from({ length: 16 }, (_, i) => i.toString(16).padStart(2, '0'))
+      );
+
+      // Every shard file records the shard count in its header
+      const shard = await readFile(join(testDir, 'users', '0a'));
+      expect(shard.readUInt16LE(6)).toBe(16);
+
+      await shardedDb.close();
+
+      const newDb = new PikoDB({ databaseDirectory: testDir, shards: 16 });
+      await newDb.start();
+
+      expect(newDb.listTables()).toEqual(['users']);
+      expect(await newDb.getTableSize('users')).toBe(100);
+      expect(await newDb.get('users', 'user42')).toEqual({ index: 42 });
+
+      await newDb.close();
+    });
+
+    test('It should replace a sharded table with imported records', async () => {
+      const shardedDb = await openSharded({ shards: 4 });
+      await shardedDb.write('users', 'user1', { name: 'Alice' });
+      await shardedDb.write('users', 'user2', { name: 'Bob' });
+
+      await shardedDb.importTable(
+        'users',
+        Readable.from([
+          '{"key":"user3","value":{"name":"Carol"},"expiration":null}\r\n',
+          '\n',
+          '{"key":"user4","value":null}'
+        ]),
+        { mode: 'replace' }
+      );
+      await shardedDb.close();
+
+      const reopenedDb = await openSharded({ shards: 4 });
+      expect(await reopenedDb.scan('users')).toEqual([
+        ['user3', { name: 'Carol' }],
+        ['user4', null]
+      ]);
+      await reopenedDb.close();
+    });
+
+    test('It should only rewrite the shard holding a changed key', async () => {
+      const shardedDb = await openSharded();
+
+      for (let i = 0; i < 100; i++)
+        await shardedDb.write('users', `user${i}`, { index: i });
+
+      const before = new Map(
+        await Promise.all(
+          readShards('users').map(
+            async (shard) =>
+              [shard, await readFile(join(testDir, 'users', shard))] as const
+          )
+        )
+      );
+
+      await shardedDb.write('users', 'user42', { index: 42, updated: true });
+
+      const changed: string[] = [];
+      for (const shard of readShards('users')) {
+        const after = await readFile(join(testDir, 'users', shard));
+        if (!after.equals(before.get(shard) as Buffer)) changed.push(shard);
+      }
+      expect(changed).toHaveLength(1);
+
+      await shardedDb.close();
+    });
+
+    test('It should persist deletes and remove the directory when deleting the table', async () => {
+      const shardedDb = await openSharded();
+      await shardedDb.write('users', 'user1', { name: 'Alice' });
+      await shardedDb.write('users', 'user2', { name: 'Bob' });
+      await shardedDb.delete('users', 'user1');
+
+      const newDb = await openSharded({ lazyLoad: true });
+      expect(await newDb.get('users')).toEqual([['user2', { name: 'Bob' }]]);
+
+      await newDb.deleteTable('users');
+      expect(existsSync(join(testDir, 'users'))).toBe(false);
+      expect(newDb.listTables()).toEqual([]);
+
+      await newDb.close();
+      await shardedDb.close();
+    });
+
+    test('It should use per-table shard counts over the global option', async () => {
+      const shardedDb = await openSharded({
+        tables: { small: { shards: 0 }, large: { shards: 4 } }
+      });
+      await shardedDb.write('small', 'key1', { name: 'Alice' });
+      await shardedDb.write('large', 'key1', { name: 'Alice' });
+      await shardedDb.write('default', 'key1', { name: 'Alice' });
+
+      expect(existsSync(join(testDir, 'small', '00'))).toBe(false);
+      expect(readShards('large')).toHaveLength(4);
+      expect(readShards('default')).toHaveLength(16);
+
+      await shardedDb.close();
+    });
+
+    test('It should convert existing tables when the shard count changes', async () => {
+      for (let i = 0; i < 50; i++)
+        await db.write('users', `user${i}`, { index: i });
+      await db.close();
+
+      // Unsharded to sharded
+      const shardedDb = await openSharded();
+      await shardedDb.write('users', 'user50', { index: 50 });
+      await shardedDb.close();
+
+      expect(readShards('users')).toHaveLength(16);
+      expect(existsSync(join(testDir, '.users.replaced'))).toBe(false);
+
+      // Resharded
+      const reshardedDb = await openSharded({ shards: 4 });
+      await reshardedDb.write('users', 'user51', { index: 51 });
+      await reshardedDb.close();
+
+      expect(readShards('users')).toHaveLength(4);
+
+      // Back to a single table file
+      const unshardedDb = new PikoDB({ databaseDirectory: testDir });
+      await unshardedDb.start();
+      expect(await unshardedDb.getTableSize('users')).toBe(52);
+      await unshardedDb.write('users', 'user52', { index: 52 });
+      await unshardedDb.close();
+
+      const buffer = await readFile(join(testDir, 'users'));
+      expect(buffer.readUInt16LE(6)).toBe(0);
+      expect(buffer.readUInt32LE(8)).toBe(53);
+    });
+
+    test('It should recover a table replacement interrupted by a crash', async () => {
+      const shardedDb = await openSharded();
+      await shardedDb.write('users', 'user1', { name: 'Alice' });
+      await shardedDb.write('products', 'prod1', { name: 'Widget' });
+      await shardedDb.close();
+
+      // Crashed after moving the old table aside, before the new one was in place
+      await rename(join(testDir, 'users'), join(testDir, '.users.replaced'));
+
+      // Crashed after the new table was in place, before the old one was removed
+      await mkdir(join(testDir, '.products.replaced'));
+
+      const newDb = await openSharded();
+
+      expect(await newDb.get('users', 'user1')).toEqual({ name: 'Alice' });
+      expect(await newDb.get('products', 'prod1')).toEqual({ name: 'Widget' });
+      expect(
+        readdirSync(testDir).filter((file) => file.endsWith('.replaced'))
+      ).toEqual([]);
+
+      await newDb.close();
+    });
+
+    test('It should retry a failed shard persist with the next commit', async () => {
+      const shardedDb = await openSharded();
+      await shardedDb.write('users', 'user1', { name: 'Alice' });
+
+      // Fail writing the next shard file
+      fsRecorder.intercept = (operation) => {
+        if (
+          operation.type === 'write' &&
+          operation.path.startsWith(`${join(testDir, 'users')}/`)
+        ) {
+          fsRecorder.intercept = null;
+          throw new Error('Disk full');
+        }
+      };
+
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      expect(await shardedDb.write('users', 'user2', { name: 'Bob' })).toBe(
+        false
+      );
+      vi.restoreAllMocks();
+
+      // Any later commit also writes the shard left dirty by the failed one
+      await shardedDb.write('users', 'user3', { name: 'Carol' });
+      await shardedDb.write('users', 'user4', { name: 'Dave' });
+
+      const newDb = await openSharded({ lazyLoad: true });
+      expect(await newDb.get('users', 'user2')).toEqual({ name: 'Bob' });
+      expect(await newDb.getTableSize('users')).toBe(4);
+
+      await newDb.close();
+      await shardedDb.close();
+    });
+
+    test('It should fold append-only logs into shards on compaction', async () => {
+      const shardedDb = await openSharded({ appendOnly: true });
+
+      for (let i = 0; i < 20; i++)
+        await shardedDb.write('events', `e${i}`, { index: i });
+
+      await shardedDb.compact('events');
+      await shardedDb.write('events', 'e20', { index: 20 });
+      await shardedDb.compact('events');
+
+      expect(existsSync(join(testDir, '.events.log'))).toBe(false);
+      expect(readShards('events')).toHaveLength(16);
+
+      await shardedDb.close();
+
+      const newDb = await openSharded();
+      expect(await newDb.getTableSize('events')).toBe(21);
+      await newDb.close();
+    });
+
+    test('It should quarantine a sharded table with a corrupted shard', async () => {
+      const shardedDb = await openSharded();
+      await shardedDb.write('users', 'user1', { name: 'Alice' });
+      await shardedDb.close();
+
+      await writeFile(join(testDir, 'users', '03'), 'invalid data', 'utf8');
+
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const onCorruption = vi.fn();
+      const newDb = await openSharded({ onCorruption });
+      vi.restoreAllMocks();
+
+      expect(onCorruption).toHaveBeenCalledTimes(1);
+      expect(existsSync(join(testDir, 'users'))).toBe(false);
+      expect(
+        readdirSync(onCorruption.mock.calls[0][0].quarantinePath)
+      ).toContain('03');
+
+      await newDb.close();
+    });
+
+    test('It should report compression stats summed over all shards', async () => {
+      const shardedDb = await openSharded({ compression: 'gzip' });
+
+      for (let i = 0; i < 100; i++)
+        await shardedDb.write('users', `user${i}`, { index: i });
+
+      const stats = await shardedDb.getCompressionStats('users');
+      let storedBytes = 0;
+      for (const shard of readShards('users'))
+        storedBytes += (await readFile(join(testDir, 'users', shard))).length;
+
+      expect(stats?.codec).toBe('gzip');
+      expect(stats?.compressedBytes).toBe(storedBytes - 16 * 24);
+
+      await shardedDb.close();
+    });
+
+    test('It should not treat other directories as tables', async () => {
+      await mkdir(join(testDir, 'backups'));
+      await writeFile(join(testDir, 'backups', 'notes.txt'), 'hello', 'utf8');
+
+      const newDb = await openSharded();
+      expect(newDb.listTables()).toEqual([]);
+      await newDb.close();
+
+      expect(existsSync(join(testDir, 'backups', 'notes.txt'))).toBe(true);
+    });
+
+    test('It should reject invalid shard counts', () => {
+      expect(
+        () => new PikoDB({ databaseDirectory: testDir, shards: 300 })
+      ).toThrow('Shards must be an integer between 0 and 256');
+
+      expect(
+        () =>
+          new PikoDB({
+            databaseDirectory: testDir,
+            tables: { users: { shards: 1.5 } }
+          })
+      ).toThrow('Shards must be an integer between 0 and 256');
+    });
+  });
+
+  describe('Durability Levels', () => {
+    type Inode = { data: Buffer; syncedData: Buffer };
+
+    /**
+     * Replay file system operations on a model of a disk with a page cache.
+     * `entries` is what processes see. File data only reaches the disk (`syncedData`) once
+     * fsynced, and directory entries (`syncedEntries`) once their directory is fsynced.
+     */
+    const replay = (
+      initialFiles: Map<string, Buffer>,
+      operations: FsOperation[]
+    ) => {
+      const entries: Map<string, Inode> = new Map();
+      const syncedEntries: Map<string, Inode> = new Map();
+
+      for (const [path, data] of initialFiles) {
+        const inode = { data, syncedData: data };
+        entries.set(path, inode);
+        syncedEntries.set(path, inode);
+      }
+
+      for (const operation of operations) {
+        if (operation.type === 'write') {
+          // Writing truncates the file, so its data on disk is gone until fsynced
+          const inode = entries.get(operation.path) || {
+            data: Buffer.alloc(0),
+            syncedData: Buffer.alloc(0)
+          };
+          inode.data = operation.data;
+          inode.syncedData = Buffer.alloc(0);
+          entries.set(operation.path, inode);
+        } else if (operation.type === 'rename') {
+          const inode = entries.get(operation.from);
+          if (!inode) continue;
+          entries.delete(operation.from);
+          entries.set(operation.to, inode);
+        } else if (entries.has(operation.path)) {
+          const inode = entries.get(operation.path) as Inode;
+          inode.syncedData = inode.data;
+        } else {
+          // Directory fsync: its current entries reach the disk
+          for (const path of syncedEntries.keys())
+            if (dirname(path) === operation.path && !entries.has(path))
+              syncedEntries.delete(path);
+          for (const [path, inode] of entries)
+            if (dirname(path) === operation.path)
+              syncedEntries.set(path, inode);
+        }
+      }
+
+      return { entries, syncedEntries };
+    };
+
+    /**
+     * Possible contents of a file if the process crashes at any point during the operations.
+     * The OS keeps every completed operation, and a write in progress may be partial.
+     */
+    const processCrashOutcomes = (
+      path: string,
+      initialFiles: Map<string, Buffer>,
+      operations: FsOperation[]
+    ) => {
+      const outcomes: Buffer[] = [];
+
+      for (let i = 0; i <= operations.length; i++) {
+        const completed = operations.slice(0, i);
+        outcomes.push(
+          replay(initialFiles, completed).entries.get(path)?.data as Buffer
+        );
+
+        const crashed = operations[i];
+        if (crashed?.type === 'write') {
+          const partial = {
+            ...crashed,
+            data: crashed.data.subarray(0, crashed.data.length / 2)
+          };
+          outcomes.push(
+            replay(initialFiles, [...completed, partial]).entries.get(path)
+              ?.data as Buffer
+          );
+        }
+      }
+
+      return outcomes;
+    };
+
+    /**
+     * Possible contents of a file after a power loss right after the operations.
+     * Unsynced directory entries may or may not have reached the disk, so both extremes
+     * are returned, each with only the file data that was fsynced.
+     */
+    const powerLossOutcomes = (
+      path: string,
+      initialFiles: Map<string, Buffer>,
+      operations: FsOperation[]
+    ) => {
+      const { entries, syncedEntries } = replay(initialFiles, operations);
+
+      return [
+        syncedEntries.get(path)?.syncedData as Buffer,
+        entries.get(path)?.syncedData as Buffer
+      ];
+    };
+
+    /**
+     * Write a record at a durability level, and collect the possible contents of the table
+     * file after a crash during that write: the old file, the new file, or a torn file.
+     */
+    const record = async (options: Record<string, any>) => {
+      const durableDb = new PikoDB({ databaseDirectory: testDir, ...options });
+      await durableDb.start();
+      await durableDb.write('users', 'user1', { name: 'Alice' });
+
+      const tablePath = join(testDir, 'users');
+      const before = await readFile(tablePath);
+      const operations: FsOperation[] = [];
+
+      fsRecorder.operations = operations;
+      try {
+        await durableDb.write('users', 'user2', { name: 'Bob' });
+      } finally {
+        fsRecorder.operations = null;
+      }
+
+      const after = await readFile(tablePath);
+      await durableDb.close();
+
+      const label = (outcome: Buffer | undefined) => {
+        if (outcome?.equals(before)) return 'before';
+        if (outcome?.equals(after)) return 'after';
+        return 'torn';
+      };
+      const initialFiles = new Map([[tablePath, before]]);
+
+      return {
+        operations,
+        processCrash: new Set(
+          processCrashOutcomes(tablePath, initialFiles, operations).map(label)
+        ),
+        powerLoss: new Set(
+          powerLossOutcomes(tablePath, initialFiles, operations).map(label)
+        )
+      };
+    };
+
+    test('It should tear table files on a process crash with durability "none"', async () => {
+      const { processCrash, powerLoss } = await record({ durability: 'none' });
+
+      expect(processCrash).toContain('torn');
+      expect(powerLoss).toEqual(new Set(['torn']));
+    });
+
+    test('It should survive a process crash but may tear on power loss with durability "atomic"', async () => {
+      const { processCrash, powerLoss } = await record({
+        durability: 'atomic'
+      });
+
+      expect(processCrash).toEqual(new Set(['before', 'after']));
+      expect(powerLoss).toEqual(new Set(['before', 'torn']));
+    });
+
+    test('It should never tear but may lose the last write on power loss with durability "fsync"', async () => {
+      const { processCrash, powerLoss } = await record({ durability: 'fsync' });
+
+      expect(processCrash).toEqual(new Set(['before', 'after']));
+      expect(powerLoss).toEqual(new Set(['before', 'after']));
+    });
+
+    test('It should keep every completed write on power loss with durability "fsync+dir"', async () => {
+      const { operations, processCrash, powerLoss } = await record({
+        durability: 'fsync+dir'
+      });
+
+      expect(processCrash).toEqual(new Set(['before', 'after']));
+      expect(powerLoss).toEqual(new Set(['after']));
+
+      // The directory is synced after the rename, not just opened
+      const renameIndex = operations.findIndex(
+        (operation) => operation.type === 'rename'
+      );
+      expect(operations.slice(renameIndex)).toContainEqual({
+        type: 'fsync',
+        path: testDir
+      });
+    });
+
+    test('It should default to durability "atomic"', async () => {
+      expect((await record({})).powerLoss).toEqual(new Set(['before', 'torn']));
+    });
+
+    test('It should map durableWrites to durability "fsync+dir"', async () => {
+      expect((await record({ durableWrites: true })).powerLoss).toEqual(
+        new Set(['after'])
+      );
+    });
+
+    test('It should use per-table durability over the global option', async () => {
+      const { powerLoss } = await record({
+        durability: 'none',
+        tables: { users: { durability: 'fsync+dir' } }
+      });
+
+      expect(powerLoss).toEqual(new Set(['after']));
+    });
+
+    test('It should sync the shard directory of sharded tables with durability "fsync+dir"', async () => {
+      const durableDb = new PikoDB({
+        databaseDirectory: testDir,
+        durability: 'fsync+dir',
+        shards: 4
+      });
+      await durableDb.start();
+      await durableDb.write('users', 'user1', { name: 'Alice' });
+
+      const operations: FsOperation[] = [];
+      fsRecorder.operations = operations;
+      try {
+        await durableDb.write('users', 'user2', { name: 'Bob' });
+      } finally {
+        fsRecorder.operations = null;
+      }
+
+      const rename = operations.find(
+        (operation) => operation.type === 'rename'
+      ) as Extract<FsOperation, { type: 'rename' }>;
+      const after = await readFile(rename.to);
+
+      for (const outcome of powerLossOutcomes(rename.to, new Map(), operations))
+        expect(outcome?.equals(after)).toBe(true);
+
+      await durableDb.close();
+    });
+
+    test('It should sync new log files and their directory with durability "fsync+dir"', async () => {
+      const durableDb = new PikoDB({
+        databaseDirectory: testDir,
+        durability: 'fsync+dir',
+        appendOnly: true
+      });
+      await durableDb.start();
+
+      const operations: FsOperation[] = [];
+      fsRecorder.operations = operations;
+      try {
+        await durableDb.write('events', 'e1', { type: 'click' });
+      } finally {
+        fsRecorder.operations = null;
+      }
+
+      expect(operations).toEqual([
+        { type: 'fsync', path: join(testDir, '.events.log') },
+        { type: 'fsync', path: testDir }
+      ]);
+
+      await durableDb.close();
+    });
+
+    test('It should reject unknown durability levels', () => {
+      expect(
+        () =>
+          new PikoDB({ databaseDirectory: testDir, durability: 'full' as any })
+      ).toThrow('Durability must be one of');
+
+      expect(
+        () =>
+          new PikoDB({
+            databaseDirectory: testDir,
+            tables: { users: { durability: 'sync' as any } }
+          })
+      ).toThrow('Durability must be one of');
+    });
+  });
+
+  describe('Streaming Serialization', () => {
+    const writeRecords = async (instance: PikoDB, count: number) => {
+      const results = await Promise.all(
+        Array.from({ length: count }, (_, i) =>
+          instance.write('events', `event${i}`, {
+            type: 'click',
+            index: i,
+            payload: 'x'.repeat(100)
+          })
+        )
+      );
+      expect(results.every(Boolean)).toBe(true);
+    };
+
+    test('It should write one JSON record per line', async () => {
+      await db.write('users', 'user1', { name: 'Alice' });
+      await db.write('users', 'user2', { name: 'Bob\nSmith' });
+
+      const buffer = await readFile(join(testDir, 'users'));
+      const lines = buffer.subarray(24).toString('utf8').split('\n');
+
+      expect(lines).toHaveLength(3);
+      expect(lines[2]).toBe('');
+      expect(JSON.parse(lines[0])[0]).toBe('user1');
+      expect(JSON.parse(lines[1])[1].d).toEqual({ name: 'Bob\nSmith' });
+    });
+
+    test('It should never serialize or parse the whole table at once', async () => {
+      await writeRecords(db, 2000);
+      await db.close();
+
+      const stringify = vi.spyOn(JSON, 'stringify');
+      const parse = vi.spyOn(JSON, 'parse');
+
+      db = new PikoDB({ databaseDirectory: testDir });
+      await db.start();
+      expect(await db.getTableSize('events')).toBe(2000);
+      await db.write('events', 'event2000', { type: 'click' });
+
+      const longestOutput = Math.max(
+        ...stringify.mock.results.map(({ value }) => String(value).length)
+      );
+      const longestInput = Math.max(
+        ...parse.mock.calls.map(([text]) => String(text).length)
+      );
+      vi.restoreAllMocks();
+
+      // A single record is about 160 bytes, the whole table over 300 KB
+      expect(longestOutput).toBeLessThan(1000);
+      expect(longestInput).toBeLessThan(1000);
+    });
+
+    test('It should stream compressed and encrypted tables across chunk boundaries', async () => {
+      const key = randomBytes(32);
+      const options = {
+        databaseDirectory: testDir,
+        tables: {
+          events: { compression: 'gzip' as const, durability: 'fsync' as const }
+        },
+        encryption: { key }
+      };
+
+      const streamingDb = new PikoDB(options);
+      await streamingDb.start();
+      await writeRecords(streamingDb, 1000);
+      const stats = await streamingDb.getCompressionStats('events');
+      await streamingDb.close();
+
+      const newDb = new PikoDB(options);
+      await newDb.start();
+
+      expect(await newDb.getTableSize('events')).toBe(1000);
+      expect(await newDb.get('events', 'event999')).toEqual({
+        type: 'click',
+        index: 999,
+        payload: 'x'.repeat(100)
+      });
+      expect(await newDb.getCompressionStats('events')).toEqual(stats);
+      expect(stats?.uncompressedBytes).toBeGreaterThan(64 * 1024);
+
+      await newDb.close();
+    });
+
+    test('It should read table files of format version 1', async () => {
+      const payload = gzipSync(
+        JSON.stringify([
+          ['key1', { d: { name: 'Alice' }, v: 1, t: 1700000000000, x: null }],
+          ['key2', { d: { name: 'Bob' }, v: 2, t: 1700000000000, x: null }]
+        ])
+      );
+      const header = Buffer.alloc(24);
+      header.write('PIKO', 0, 'ascii');
+      header.writeUInt8(1, 4);
+      header.writeUInt8(1, 5);
+      header.writeUInt32LE(2, 8);
+      header.writeUInt32LE(crc32(payload), 12);
+      header.writeBigUInt64LE(BigInt(payload.length), 16);
+      await writeFile(
+        join(testDir, 'legacy'),
+        Buffer.concat([header, payload])
+      );
+
+      const newDb = new PikoDB({ databaseDirectory: testDir });
+      await newDb.start();
+
+      expect(await newDb.get('legacy', 'key2')).toEqual({ name: 'Bob' });
+      expect((await newDb.getCompressionStats('legacy'))?.codec).toBe('gzip');
+
+      // Files of earlier versions are upgraded on the next write
+      await newDb.write('legacy', 'key3', { name: 'Carol' });
+      const buffer = await readFile(join(testDir, 'legacy'));
+      expect(buffer.readUInt8(4)).toBe(2);
+
+      await newDb.close();
+    });
+
+    test('It should quarantine table files ending with an incomplete record', async () => {
+      await db.write('users', 'user1', { name: 'Alice' });
+      await db.write('users', 'user2', { name: 'Bob' });
+
+      // Drop the final newline and fix up the header, so only the parser catches it
+      const filePath = join(testDir, 'users');
+      const buffer = await readFile(filePath);
+      const torn = buffer.subarray(0, buffer.length - 1);
+      torn.writeUInt32LE(crc32(torn.subarray(24)), 12);
+      torn.writeBigUInt64LE(BigInt(torn.length - 24), 16);
+      await writeFile(filePath, torn);
+
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const onCorruption = vi.fn();
+      const newDb = new PikoDB({ databaseDirectory: testDir, onCorruption });
+      await newDb.start();
+      vi.restoreAllMocks();
+
+      expect(onCorruption).toHaveBeenCalledTimes(1);
+      expect(onCorruption.mock.calls[0][0].cause.message).toContain(
+        'incomplete record'
+      );
+
+      await newDb.close();
+    });
+  });
+
+  describe('Backup and Restore', () => {
+    let backupDir: string;
+    let restoreDir: string;
+
+    beforeEach(() => {
+      backupDir = `${testDir}-backup`;
+      restoreDir = `${testDir}-restore`;
+    });
+
+    afterEach(async () => {
+      await rm(backupDir, { recursive: true, force: true });
+      await rm(restoreDir, { recursive: true, force: true });
+    });
+
+    const openRestored = async (options: Record<string, any> = {}) => {
+      const restoredDb = new PikoDB({
+        databaseDirectory: restoreDir,
+        ...options
+      });
+      await restoredDb.start();
+      return restoredDb;
+    };
+
+    test('It should back up all tables and restore them into a fresh directory', async () => {
+      await db.write('users', 'user1', { name: 'Alice' });
+      await db.write('products', 'prod1', { name: 'Widget' });
+
+      await db.backup(backupDir);
+      await PikoDB.restore(backupDir, restoreDir);
+
+      const restoredDb = await openRestored();
+      expect(restoredDb.listTables().sort()).toEqual(['products', 'users']);
+      expect(await restoredDb.get('users', 'user1')).toEqual({ name: 'Alice' });
+      expect(await restoredDb.get('products', 'prod1')).toEqual({
+        name: 'Widget'
+      });
+      await restoredDb.close();
+
+      const manifest = JSON.parse(
+        await readFile(join(backupDir, '.backup.json'), 'utf8')
+      );
+      expect(manifest.version).toBe(1);
+      expect(manifest.tables.sort()).toEqual(['products', 'users']);
+      expect(manifest.files).toHaveLength(2);
+    });
+
+    test('It should back up sharded tables and append-only logs', async () => {
+      const options = {
+        appendOnly: true,
+        tables: { events: { shards: 4 } }
+      };
+      const sourceDir = `${testDir}-source`;
+      const sourceDb = new PikoDB({ databaseDirectory: sourceDir, ...options });
+      await sourceDb.start();
+      await sourceDb.write('events', 'e1', { type: 'click' });
+      await sourceDb.compact('events');
+      await sourceDb.write('events', 'e2', { type: 'view' });
+      await sourceDb.write('users', 'user1', { name: 'Alice' });
+
+      await sourceDb.backup(backupDir);
+      await sourceDb.close();
+      await rm(sourceDir, { recursive: true, force: true });
+
+      expect(existsSync(join(backupDir, 'events', '03'))).toBe(true);
+      expect(existsSync(join(backupDir, '.events.log'))).toBe(true);
+      expect(existsSync(join(backupDir, '.users.log'))).toBe(true);
+
+      await PikoDB.restore(backupDir, restoreDir);
+
+      const restoredDb = await openRestored(options);
+      expect(await restoredDb.get('events', 'e1')).toEqual({ type: 'click' });
+      expect(await restoredDb.get('events', 'e2')).toEqual({ type: 'view' });
+      expect(await restoredDb.get('users', 'user1')).toEqual({ name: 'Alice' });
+      await restoredDb.close();
+    });
+
+    test('It should take a consistent snapshot while writes continue', async () => {
+      await db.write('orders', 'last', { round: 0 });
+      await db.write('payments', 'last', { round: 0 });
+
+      // Every round writes orders before payments, so payments can never be ahead
+      let done = false;
+      const writes = (async () => {
+        for (let round = 1; !done || round <= 5; round++) {
+          await db.write('orders', 'last', { round });
+          await db.write('payments', 'last', { round });
+        }
+      })();
+
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      await db.backup(backupDir);
+      done = true;
+      await writes;
+
+      await PikoDB.restore(backupDir, restoreDir);
+      const restoredDb = await openRestored();
+      const orders = (await restoredDb.get('orders', 'last')).round;
+      const payments = (await restoredDb.get('payments', 'last')).round;
+      await restoredDb.close();
+
+      expect([payments, payments + 1]).toContain(orders);
+      expect((await db.get('payments', 'last')).round).toBeGreaterThanOrEqual(
+        5
+      );
+    });
+
+    test('It should replace existing tables when restoring into the original directory', async () => {
+      await db.write('users', 'user1', { name: 'Alice' });
+      await db.backup(backupDir);
+
+      await db.write('users', 'user2', { name: 'Bob' });
+      await db.write('products', 'prod1', { name: 'Widget' });
+      await db.close();
+
+      await mkdir(join(testDir, 'attachments'));
+      await PikoDB.restore(backupDir, testDir);
+
+      db = new PikoDB({ databaseDirectory: testDir });
+      await db.start();
+
+      expect(db.listTables()).toEqual(['users']);
+      expect(await db.get('users')).toEqual([['user1', { name: 'Alice' }]]);
+      expect(existsSync(join(testDir, 'attachments'))).toBe(true);
+      expect(
+        readdirSync(testDir).some((file) => file.startsWith('.restore'))
+      ).toBe(false);
+    });
+
+    test('It should refuse to restore into a directory that is in use', async () => {
+      await db.write('users', 'user1', { name: 'Alice' });
+      await db.backup(backupDir);
+
+      await expect(PikoDB.restore(backupDir, testDir)).rejects.toThrow(
+        DatabaseLockedError
+      );
+      expect(await db.get('users', 'user1')).toEqual({ name: 'Alice' });
+    });
+
+    test('It should refuse to restore incomplete or corrupted backups', async () => {
+      await db.write('users', 'user1', { name: 'Alice' });
+      await db.backup(backupDir);
+
+      const filePath = join(backupDir, 'users');
+      const buffer = await readFile(filePath);
+      buffer[buffer.length - 1] ^= 1;
+      await writeFile(filePath, buffer);
+
+      await expect(PikoDB.restore(backupDir, restoreDir)).rejects.toThrow(
+        'Backup file "users" failed its checksum'
+      );
+
+      await rm(join(backupDir, '.backup.json'));
+      await expect(PikoDB.restore(backupDir, restoreDir)).rejects.toThrow(
+        'is not a complete backup'
+      );
+
+      expect(existsSync(join(restoreDir, 'users'))).toBe(false);
+    });
+
+    test('It should reject backup directories that are not empty or overlap the database', async () => {
+      await db.write('users', 'user1', { name: 'Alice' });
+
+      await mkdir(backupDir);
+      await writeFile(join(backupDir, 'notes.txt'), 'keep me');
+      await expect(db.backup(backupDir)).rejects.toThrow('is not empty');
+      expect(await readFile(join(backupDir, 'notes.txt'), 'utf8')).toBe(
+        'keep me'
+      );
+
+      await expect(db.backup(join(testDir, 'backup'))).rejects.toThrow(
+        'must not be inside the database directory'
+      );
+      await expect(PikoDB.restore(testDir, testDir)).rejects.toThrow(
+        'must not be inside the database directory'
+      );
+    });
+  });
+
+  describe('Export and Import', () => {
+    const exportLines = async (instance: PikoDB, tableName: string) => {
+      const exportPath = join(testDir, '.export.ndjson');
+      const count = await instance.exportTable(
+        tableName,
+        createWriteStream(exportPath)
+      );
+      const content = await readFile(exportPath, 'utf8');
+      await rm(exportPath);
+      return { count, content };
+    };
+
+    const importLines = (instance: PikoDB, tableName: string, lines: any[]) =>
+      instance.importTable(
+        tableName,
+        Readable.from(
+          lines.map((line) =>
+            typeof line === 'string' ? line : `${JSON.stringify(line)}\n`
+          )
+        )
+      );
+
+    test('It should export records as NDJSON with metadata and inflated values', async () => {
+      db.addDictionary('users', { deflate: { username: 'u', email: 'e' } });
+      await db.write(
+        'users',
+        'user1',
+        { username: 'alice', email: 'alice@example.com' },
+        undefined,
+        'users'
+      );
+      await db.write('users', 'user1', { username: 'alice2' }, 4102444800000);
+      await db.write('users', 'user2', { username: 'bob' }, undefined, 'users');
+      await db.write('users', 'expired', { username: 'old' }, Date.now() - 1);
+
+      const { count, content } = await exportLines(db, 'users');
+      const lines = content
+        .trimEnd()
+        .split('\n')
+        .map((line) => JSON.parse(line));
+
+      expect(count).toBe(2);
+      expect(content.endsWith('\n')).toBe(true);
+      expect(lines[0]).toEqual({
+        key: 'user1',
+        value: { username: 'alice2' },
+        version: 2,
+        timestamp: expect.any(Number),
+        expiration: 4102444800000
+      });
+      expect(lines[1]).toMatchObject({
+        key: 'user2',
+        value: { username: 'bob' },
+        version: 1,
+        expiration: null,
+        dictionaryName: 'users'
+      });
+    });
+
+    test('It should round-trip a table between databases with different dictionaries', async () => {
+      db.addDictionary('users', { deflate: { username: 'u', email: 'e' } });
+      await db.write(
+        'users',
+        'user1',
+        { username: 'alice', email: 'alice@example.com' },
+        undefined,
+        'users'
+      );
+      await db.write('users', 'user1', { username: 'alice', email: 'a@b.c' });
+      const { content } = await exportLines(db, 'users');
+
+      const otherDir = `${testDir}-other`;
+      const otherDb = new PikoDB({
+        databaseDirectory: otherDir,
+        dictionaries: { users: { deflate: { username: 'name' } } }
+      });
+      await otherDb.start();
+
+      try {
+        expect(
+          await otherDb.importTable('people', Readable.from([content]))
+        ).toBe(1);
+        await otherDb.close();
+
+        const reopenedDb = new PikoDB({ databaseDirectory: otherDir });
+        await reopenedDb.start();
+        expect(await reopenedDb.get('people', 'user1')).toEqual({
+          username: 'alice',
+          email: 'a@b.c'
+        });
+        expect((await exportLines(reopenedDb, 'people')).content).toBe(content);
+        await reopenedDb.close();
+      } finally {
+        await rm(otherDir, { recursive: true, force: true });
+      }
+    });
+
+    test('It should merge imported records into a table by default', async () => {
+      await db.write('users', 'user1', { name: 'Alice' });
+      await db.write('users', 'user2', { name: 'Bob' });
+
+      const count = await importLines(db, 'users', [
+        { key: 'user2', value: { name: 'Robert' }, version: 7 },
+        { key: 'user3', value: { name: 'Carol' } }
+      ]);
+
+      expect(count).toBe(2);
+      expect(await db.get('users')).toEqual([
+        ['user1', { name: 'Alice' }],
+        ['user2', { name: 'Robert' }],
+        ['user3', { name: 'Carol' }]
+      ]);
+
+      // Imported versions are kept and continue to count up
+      await db.write('users', 'user2', { name: 'Bobby' });
+      const { content } = await exportLines(db, 'users');
+      expect(content).toContain(
+        '"key":"user2","value":{"name":"Bobby"},"version":8'
+      );
+    });
+
+    test('It should skip expired records and drop unknown dictionary names on import', async () => {
+      const count = await importLines(db, 'sessions', [
+        { key: 's1', value: 1, expiration: Date.now() - 1000 },
+        { key: 's2', value: 2, dictionaryName: 'missing' }
+      ]);
+
+      expect(count).toBe(1);
+      expect(await db.get('sessions')).toEqual([['s2', 2]]);
+      expect((await exportLines(db, 'sessions')).content).not.toContain(
+        'dictionaryName'
+      );
+    });
+
+    test('It should reject invalid lines without changing the table', async () => {
+      await db.write('users', 'user1', { name: 'Alice' });
+
+      await expect(
+        importLines(db, 'users', [
+          { key: 'user2', value: { name: 'Bob' } },
+          { key: 'user3', value: 1, version: 0 }
+        ])
+      ).rejects.toThrow(
+        'Invalid record on line 2: Version must be a positive integer'
+      );
+
+      await expect(
+        importLines(db, 'users', ['{"key":"user2"}\n', 'not json\n'])
+      ).rejects.toThrow('Invalid record on line 1: Record must have a value');
+
+      await expect(
+        db.importTable('users', Readable.from([]), { mode: 'upsert' as any })
+      ).rejects.toThrow('Import mode must be "merge" or "replace"');
+
+      expect(await db.get('users')).toEqual([['user1', { name: 'Alice' }]]);
+    });
+  });
+
+  describe('Schema Migrations', () => {
+    const getVersions = async (instance: PikoDB, tableName: string) => {
+      const exportPath = join(testDir, '.export.ndjson');
+      await instance.exportTable(tableName, createWriteStream(exportPath));
+      const content = await readFile(exportPath, 'utf8');
+      await rm(exportPath);
+
+      return Object.fromEntries(
+        content
+          .trimEnd()
+          .split('\n')
+          .map((line) => JSON.parse(line))
+          .map(({ key, version }) => [key, version])
+      );
+    };
+
+    const splitName = {
+      id: '001-split-name',
+      table: 'users',
+      up: ({ name, ...user }: any) => {
+        const [firstName, lastName] = name.split(' ');
+        return { ...user, firstName, lastName };
+      }
+    };
+
+    test('It should run each migration once and record it in a hidden system table', async () => {
+      await db.write('users', 'user1', { name: 'Alice Smith' });
+      await db.write('users', 'user2', { name: 'Bob Jones', banned: true });
+      await db.write('flags', 'flag1', true);
+
+      const dropBanned = {
+        id: '002-drop-banned',
+        table: 'users',
+        up: (user: any) => (user.banned ? undefined : user)
+      };
+
+      expect(await db.migrate([splitName, dropBanned])).toEqual([
+        '001-split-name',
+        '002-drop-banned'
+      ]);
+      expect(await db.migrate([splitName, dropBanned])).toEqual([]);
+
+      expect(await db.get('users')).toEqual([
+        ['user1', { firstName: 'Alice', lastName: 'Smith' }]
+      ]);
+      expect(await getVersions(db, 'users')).toEqual({ user1: 2 });
+      expect(db.listTables().sort()).toEqual(['flags', 'users']);
+
+      await db.close();
+      db = new PikoDB({ databaseDirectory: testDir });
+      await db.start();
+
+      expect(db.listTables().sort()).toEqual(['flags', 'users']);
+      expect(await db.get('users', 'user1')).toEqual({
+        firstName: 'Alice',
+        lastName: 'Smith'
+      });
+      expect(await db.migrate([splitName, dropBanned])).toEqual([]);
+
+      const systemTable = JSON.parse(
+        await readFile(join(testDir, '.system.json'), 'utf8')
+      );
+      expect(systemTable.migrations.map(({ id }: any) => id)).toEqual([
+        '001-split-name',
+        '002-drop-banned'
+      ]);
+    });
+
+    test('It should only bump the version of records a migration changes', async () => {
+      await db.write('users', 'user1', { name: 'Alice', role: 'admin' });
+      await db.write('users', 'user2', { name: 'Bob' });
+
+      await db.migrate([
+        {
+          id: 'default-role',
+          table: 'users',
+          up: (user) => {
+            user.role ??= 'member';
+            return user;
+          }
+        }
+      ]);
+
+      expect(await getVersions(db, 'users')).toEqual({ user1: 1, user2: 2 });
+      expect(await db.get('users', 'user2')).toEqual({
+        name: 'Bob',
+        role: 'member'
+      });
+    });
+
+    test('It should leave a table unchanged when a migration fails', async () => {
+      await db.write('users', 'user1', { name: 'Alice Smith' });
+      await db.write('users', 'user2', { name: null });
+
+      const failing = {
+        id: '003-lowercase',
+        table: 'users',
+        up: (user: any) => {
+          user.firstName = user.firstName.toLowerCase();
+          return user;
+        }
+      };
+
+      await db.write('teams', 'team1', { name: 'Red' });
+      const renameTeam = {
+        id: '000-rename-team',
+        table: 'teams',
+        up: () => ({ name: 'Blue' })
+      };
+
+      await expect(db.migrate([renameTeam, failing])).rejects.toThrow();
+
+      // Migrations before the failing one stay applied
+      expect(await db.get('teams', 'team1')).toEqual({ name: 'Blue' });
+      expect(await db.get('users')).toEqual([
+        ['user1', { name: 'Alice Smith' }],
+        ['user2', { name: null }]
+      ]);
+      expect(await getVersions(db, 'users')).toEqual({ user1: 1, user2: 1 });
+
+      await db.delete('users', 'user2');
+      expect(await db.migrate([renameTeam, splitName])).toEqual([
+        '001-split-name'
+      ]);
+    });
+
+    test('It should await async migrations, and leave the table unchanged when one rejects', async () => {
+      await db.write('users', 'user1', { name: 'Alice Smith' });
+      await db.write('users', 'user2', { name: 'Bob Jones', banned: true });
+
+      const rejecting = {
+        id: '001-async-failing',
+        table: 'users',
+        up: async (user: any) => {
+          if (user.banned) throw new Error('Lookup failed');
+          return { ...user, checked: true };
+        }
+      };
+      await expect(db.migrate([rejecting])).rejects.toThrow('Lookup failed');
+      expect(await db.get('users', 'user1')).toEqual({ name: 'Alice Smith' });
+
+      const asyncSplitName = {
+        id: '002-async-split-name',
+        table: 'users',
+        up: async (user: any, key: string) => {
+          await new Promise((resolve) => setTimeout(resolve, 1));
+          return key === 'user2' ? undefined : splitName.up(user);
+        }
+      };
+      expect(await db.migrate([asyncSplitName])).toEqual([
+        '002-async-split-name'
+      ]);
+
+      await db.close();
+      db = new PikoDB({ databaseDirectory: testDir });
+      await db.start();
+
+      expect(await db.get('users')).toEqual([
+        ['user1', { firstName: 'Alice', lastName: 'Smith' }]
+      ]);
+    });
+
+    test('It should keep writes made while a slow async migration runs', async () => {
+      await db.write('users', 'a', { name: 'Alice Smith' });
+      await db.write('users', 'b', { name: 'Bob Jones' });
+
+      let startMigrating: () => void = () => {};
+      const isMigrating = new Promise<void>((resolve) => {
+        startMigrating = resolve;
+      });
+      const slowSplitName = {
+        id: '001-slow-split-name',
+        table: 'users',
+        up: async (user: any) => {
+          startMigrating();
+          await new Promise((resolve) => setTimeout(resolve, 20));
+          return splitName.up(user);
+        }
+      };
+
+      const migrating = db.migrate([slowSplitName]);
+      await isMigrating;
+
+      const writing = db.write('users', 'c', { firstName: 'Carol' });
+      const deleting = db.delete('users', 'b');
+
+      expect(await migrating).toEqual(['001-slow-split-name']);
+      expect(await writing).toBe(true);
+      expect(await deleting).toBe(true);
+
+      const expected = [
+        ['a', { firstName: 'Alice', lastName: 'Smith' }],
+        ['c', { firstName: 'Carol' }]
+      ];
+      expect(await db.get('users')).toEqual(expected);
+
+      await db.close();
+      db = new PikoDB({ databaseDirectory: testDir });
+      await db.start();
+
+      expect(await db.get('users')).toEqual(expected);
+    });
+
+    test('It should migrate append-only and sharded tables atomically', async () => {
+      const migrationDir = `${testDir}-migration`;
+      const options = {
+        databaseDirectory: migrationDir,
+        appendOnly: true,
+        tables: { users: { shards: 4 } }
+      };
+      let migrationDb = new PikoDB(options);
+      await migrationDb.start();
+
+      try {
+        for (let index = 0; index < 20; index++)
+          await migrationDb.write('users', `user${index}`, {
+            name: `User ${index}`
+          });
+        await migrationDb.write('events', 'event1', { name: 'Click Event' });
+
+        expect(
+          await migrationDb.migrate([
+            splitName,
+            { ...splitName, id: '001-split-event-name', table: 'events' }
+          ])
+        ).toHaveLength(2);
+
+        // The logs were folded into the migrated table files, so replaying them cannot undo the migration
+        expect(existsSync(join(migrationDir, '.users.log'))).toBe(false);
+        expect(existsSync(join(migrationDir, '.events.log'))).toBe(false);
+
+        await migrationDb.close();
+        migrationDb = new PikoDB(options);
+        await migrationDb.start();
+
+        expect(await migrationDb.get('users', 'user7')).toEqual({
+          firstName: 'User',
+          lastName: '7'
+        });
+        expect(await migrationDb.get('events', 'event1')).toEqual({
+          firstName: 'Click',
+          lastName: 'Event'
+        });
+      } finally {
+        await migrationDb.close();
+        await rm(migrationDir, { recursive: true, force: true });
+      }
+    });
+
+    test('It should refuse to start on a directory migrated by a newer app version', async () => {
+      await db.close();
+      db = new PikoDB({ databaseDirectory: testDir, appVersion: '1.10.0' });
+      await db.start();
+      await db.write('users', 'user1', { name: 'Alice Smith' });
+      await db.migrate([splitName]);
+      await db.close();
+
+      const olderDb = new PikoDB({
+        databaseDirectory: testDir,
+        appVersion: '1.9.2'
+      });
+      const error = await olderDb.start().catch((error) => error);
+
+      expect(error).toBeInstanceOf(DatabaseVersionError);
+      expect(error.migratedBy).toBe('1.10.0');
+      expect(error.appVersion).toBe('1.9.2');
+
+      // The lock was released, so the directory can still be opened by the right version
+      db = new PikoDB({ databaseDirectory: testDir, appVersion: '1.10' });
+      await db.start();
+      expect(await db.get('users', 'user1')).toEqual({
+        firstName: 'Alice',
+        lastName: 'Smith'
+      });
+    });
+
+    test('It should record the newest app version even without new migrations', async () => {
+      await db.close();
+      db = new PikoDB({ databaseDirectory: testDir, appVersion: '2.0.0' });
+      await db.start();
+      await db.migrate([splitName]);
+      await db.close();
+
+      db = new PikoDB({ databaseDirectory: testDir, appVersion: '3.0.0' });
+      await db.start();
+      expect(await db.migrate([splitName])).toEqual([]);
+      await db.close();
+
+      await expect(
+        new PikoDB({ databaseDirectory: testDir, appVersion: '2.5.0' }).start()
+      ).rejects.toThrow(DatabaseVersionError);
+
+      db = new PikoDB({ databaseDirectory: testDir });
+      await db.start();
+    });
+
+    test('It should reject invalid migrations and app versions', async () => {
+      await expect(db.migrate([splitName, splitName])).rejects.toThrow(
+        'Migration id "001-split-name" is not unique'
+      );
+      await expect(
+        db.migrate([{ ...splitName, table: '../users' }])
+      ).rejects.toThrow('Table name must not contain path separators');
+      await expect(
+        db.migrate([{ ...splitName, up: undefined as any }])
+      ).rejects.toThrow('Migration "001-split-name" must have an up function');
+
+      expect(
+        () => new PikoDB({ databaseDirectory: testDir, appVersion: 'v2' })
+      ).toThrow('App version must be numbers separated by dots');
+    });
+
+    test('It should back up and restore the applied migrations', async () => {
+      const backupDir = `${testDir}-backup`;
+
+      try {
+        await db.write('users', 'user1', { name: 'Alice Smith' });
+        await db.migrate([splitName]);
+        await db.backup(backupDir);
+        await db.close();
+
+        await rm(testDir, { recursive: true, force: true });
+        await PikoDB.restore(backupDir, testDir);
+
+        db = new PikoDB({ databaseDirectory: testDir });
+        await db.start();
+        expect(await db.migrate([splitName])).toEqual([]);
+        expect(await db.get('users', 'user1')).toEqual({
+          firstName: 'Alice',
+          lastName: 'Smith'
+        });
+      } finally {
+        await rm(backupDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('Dictionary Catalog', () => {
+    const reopen = async (options: Record<string, any> = {}) => {
+      await db.close();
+      db = new PikoDB({ databaseDirectory: testDir, ...options });
+      await db.start();
+    };
+
+    const readCatalog = async () =>
+      JSON.parse(await readFile(join(testDir, '.dictionaries.json'), 'utf8'));
+
+    test('It should load dictionaries from the catalog without passing them again', async () => {
+      await reopen({
+        dictionaries: {
+          sensors: { deflate: { sensor: 's', temperature: 't' } }
+        }
+      });
+      await db.write(
+        'readings',
+        'r1',
+        { sensor: 'DHT22', temperature: 23.5 },
+        undefined,
+        'sensors'
+      );
+
+      await reopen();
+
+      expect(db.listDictionaries()).toEqual(['sensors']);
+      expect(await db.get('readings', 'r1')).toEqual({
+        sensor: 'DHT22',
+        temperature: 23.5
+      });
+      expect(await readCatalog()).toEqual({
+        version: 1,
+        dictionaries: {
+          sensors: { versions: [{ sensor: 's', temperature: 't' }] }
+        }
+      });
+    });
+
+    test('It should read records with the dictionary version they were written with', async () => {
+      await reopen({
+        tables: { readings: { shards: 4 } },
+        dictionaries: { sensors: { deflate: { sensor: 's' } } }
+      });
+      for (let index = 0; index < 8; index++)
+        await db.write(
+          'readings',
+          `r${index}`,
+          { sensor: `DHT${index}`, status: 'ok' },
+          undefined,
+          'sensors'
+        );
+
+      // The short key 's' now means something else
+      await reopen({
+        tables: { readings: { shards: 4 } },
+        dictionaries: { sensors: { deflate: { status: 's', sensor: 'n' } } }
+      });
+      await db.write(
+        'readings',
+        'r0',
+        { sensor: 'BME280', status: 'ok' },
+        undefined,
+        'sensors'
+      );
+
+      // Untouched shards still hold records encoded with version 1
+      await reopen();
+
+      const readings = await db.get('readings');
+      expect(readings).toHaveLength(8);
+      for (const [key, value] of readings)
+        expect(value).toEqual({
+          sensor: key === 'r0' ? 'BME280' : `DHT${key.slice(1)}`,
+          status: 'ok'
+        });
+      expect((await readCatalog()).dictionaries.sensors.versions).toEqual([
+        { sensor: 's' },
+        { status: 's', sensor: 'n' }
+      ]);
+    });
+
+    test('It should not add a version when a dictionary is passed again unchanged', async () => {
+      const dictionaries = { users: { inflate: { u: 'username' } } };
+      await reopen({ dictionaries });
+      await db.write(
+        'users',
+        'user1',
+        { username: 'alice' },
+        undefined,
+        'users'
+      );
+      await reopen({ dictionaries });
+      db.addDictionary('users', { deflate: { username: 'u' } });
+      await db.write('users', 'user2', { username: 'bob' }, undefined, 'users');
+
+      expect((await readCatalog()).dictionaries.users.versions).toHaveLength(1);
+    });
+
+    test('It should fail to load records whose dictionary is missing instead of quarantining them', async () => {
+      await reopen({ dictionaries: { users: { deflate: { username: 'u' } } } });
+      await db.write(
+        'users',
+        'user1',
+        { username: 'alice' },
+        undefined,
+        'users'
+      );
+      await db.close();
+
+      // Databases written before the catalog existed rely on the dictionaries option
+      await rm(join(testDir, '.dictionaries.json'));
+
+      db = new PikoDB({ databaseDirectory: testDir });
+      const error = await db.start().catch((error) => error);
+
+      expect(error).toBeInstanceOf(DictionaryNotFoundError);
+      expect(error.dictionaryName).toBe('users');
+      expect(error.dictionaryVersion).toBe(1);
+      expect(readdirSync(testDir)).toEqual(['users']);
+
+      db = new PikoDB({
+        databaseDirectory: testDir,
+        dictionaries: { users: { deflate: { username: 'u' } } }
+      });
+      await db.start();
+      expect(await db.get('users', 'user1')).toEqual({ username: 'alice' });
+    });
+
+    test('It should keep removed dictionaries to read existing records', async () => {
+      await reopen({ dictionaries: { users: { deflate: { username: 'u' } } } });
+      await db.write(
+        'users',
+        'user1',
+        { username: 'alice' },
+        undefined,
+        'users'
+      );
+      await db.write('users', 'user2', { username: 'bob' }, undefined, 'users');
+
+      db.removeDictionary('users');
+      await reopen();
+
+      expect(db.listDictionaries()).toEqual([]);
+      expect(await db.get('users', 'user1')).toEqual({ username: 'alice' });
+      expect((await readCatalog()).dictionaries.users.removed).toBe(true);
+
+      // Records are stored without the removed dictionary once rewritten
+      await db.write('users', 'user1', { username: 'alice2' });
+      await db.flush();
+      const tableFile = await readFile(join(testDir, 'users'));
+      expect(tableFile.toString('utf8')).toContain('"d":{"username":"alice2"}');
+    });
+
+    test('It should back up and restore the dictionary catalog', async () => {
+      const backupDir = `${testDir}-backup`;
+      const restoreDir = `${testDir}-restore`;
+
+      try {
+        await reopen({
+          dictionaries: { users: { deflate: { username: 'u' } } }
+        });
+        await db.write(
+          'users',
+          'user1',
+          { username: 'alice' },
+          undefined,
+          'users'
+        );
+        await db.backup(backupDir);
+
+        await PikoDB.restore(backupDir, restoreDir);
+        const restoredDb = new PikoDB({ databaseDirectory: restoreDir });
+        await restoredDb.start();
+        expect(await restoredDb.get('users', 'user1')).toEqual({
+          username: 'alice'
+        });
+        await restoredDb.close();
+      } finally {
+        await rm(backupDir, { recursive: true, force: true });
+        await rm(restoreDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('Dictionary Re-encoding', () => {
+    const readTableFile = async (tableName: string) =>
+      (await readFile(join(testDir, tableName))).toString('utf8');
+
+    beforeEach(() => {
+      db.addDictionary('sensors', {
+        deflate: { sensor: 's', temperature: 't' }
+      });
+    });
+
+    test('It should re-encode records with the new version of a dictionary', async () => {
+      db.addDictionary('users', { deflate: { username: 'u' } });
+      await db.write(
+        'readings',
+        'r1',
+        { sensor: 'DHT22', temperature: 23.5 },
+        undefined,
+        'sensors'
+      );
+      await db.write('readings', 'r2', { sensor: 'BME280' });
+      await db.write(
+        'users',
+        'user1',
+        { username: 'alice' },
+        undefined,
+        'users'
+      );
+
+      const count = await db.updateDictionary(
+        'sensors',
+        { deflate: { sensor: 'sn', temperature: 'tp' } },
+        { reencode: true }
+      );
+
+      expect(count).toBe(1);
+      expect(await readTableFile('readings')).toContain(
+        '"d":{"sn":"DHT22","tp":23.5}'
+      );
+      expect(await readTableFile('readings')).toContain('"n":"sensors","nv":2');
+
+      await db.close();
+      db = new PikoDB({ databaseDirectory: testDir });
+      await db.start();
+
+      expect(await db.get('readings')).toEqual([
+        ['r1', { sensor: 'DHT22', temperature: 23.5 }],
+        ['r2', { sensor: 'BME280' }]
+      ]);
+      expect(await db.get('users', 'user1')).toEqual({ username: 'alice' });
+    });
+
+    test('It should keep old records readable when updating without re-encoding', async () => {
+      await db.write(
+        'readings',
+        'r1',
+        { sensor: 'DHT22', temperature: 23.5 },
+        undefined,
+        'sensors'
+      );
+
+      // The short keys are swapped, which would garble records decoded with the wrong version
+      expect(
+        await db.updateDictionary('sensors', {
+          deflate: { sensor: 't', temperature: 's' }
+        })
+      ).toBe(0);
+      expect(await readTableFile('readings')).toContain(
+        '"d":{"s":"DHT22","t":23.5}'
+      );
+
+      await db.close();
+      db = new PikoDB({ databaseDirectory: testDir });
+      await db.start();
+
+      expect(await db.get('readings', 'r1')).toEqual({
+        sensor: 'DHT22',
+        temperature: 23.5
+      });
+    });
+
+    test('It should move a table onto and off a dictionary', async () => {
+      let appendOnlyDb = new PikoDB({
+        databaseDirectory: `${testDir}-append`,
+        appendOnly: true,
+        dictionaries: { sensors: { deflate: { sensor: 's' } } }
+      });
+      await appendOnlyDb.start();
+
+      try {
+        await appendOnlyDb.write('readings', 'r1', { sensor: 'DHT22' });
+        await appendOnlyDb.write('readings', 'r2', { sensor: 'BME280' });
+
+        expect(await appendOnlyDb.reencodeTable('readings', 'sensors')).toBe(2);
+        expect(existsSync(join(`${testDir}-append`, '.readings.log'))).toBe(
+          false
+        );
+        const onFile = await readFile(join(`${testDir}-append`, 'readings'));
+        expect(onFile.toString('utf8')).toContain('"d":{"s":"DHT22"}');
+
+        expect(await appendOnlyDb.reencodeTable('readings', null)).toBe(2);
+        const offFile = await readFile(join(`${testDir}-append`, 'readings'));
+        expect(offFile.toString('utf8')).toContain('"d":{"sensor":"DHT22"}');
+        expect(offFile.toString('utf8')).not.toContain('"n":');
+
+        await appendOnlyDb.close();
+        appendOnlyDb = new PikoDB({ databaseDirectory: `${testDir}-append` });
+        await appendOnlyDb.start();
+        expect(await appendOnlyDb.get('readings', 'r2')).toEqual({
+          sensor: 'BME280'
+        });
+      } finally {
+        await appendOnlyDb.close();
+        await rm(`${testDir}-append`, { recursive: true, force: true });
+      }
+    });
+
+    test('It should reject unknown dictionaries and skip missing tables', async () => {
+      await expect(
+        db.updateDictionary('missing', { deflate: { a: 'b' } })
+      ).rejects.toThrow('Dictionary "missing" not found');
+      await expect(db.reencodeTable('readings', 'missing')).rejects.toThrow(
+        'Dictionary "missing" not found'
+      );
+
+      expect(await db.reencodeTable('readings', 'sensors')).toBe(0);
+      expect(existsSync(join(testDir, 'readings'))).toBe(false);
+    });
+  });
+
+  describe('Dictionary Suggestions', () => {
+    const writeTelemetry = async (count: number) => {
+      for (let index = 0; index < count; index++)
+        await db.write('telemetry', `t${index}`, {
+          temperature: 20 + index,
+          humidity: 50,
+          a: index,
+          location: { building: 'A', floor: index % 3 },
+          readings: [{ timestamp: index }, { timestamp: index + 1 }]
+        });
+    };
+
+    test('It should suggest collision-free codes for frequent keys at every level', async () => {
+      await writeTelemetry(10);
+      await db.write('telemetry', 'once', { rarelyUsedKey: true });
+
+      const { dictionary } = await db.suggestDictionary('telemetry');
+      const deflate = dictionary.deflate as Record<string, string>;
+
+      expect(Object.keys(deflate).sort()).toEqual([
+        'building',
+        'floor',
+        'humidity',
+        'location',
+        'readings',
+        'temperature',
+        'timestamp'
+      ]);
+      // Occurring twice per record, timestamp outranks the longer temperature
+      expect(deflate.timestamp).toBe('b');
+      expect(deflate.temperature).toBe('c');
+      // 'a' is a key in the data, so it is never used as a code
+      expect(Object.values(deflate)).not.toContain('a');
+      expect(new Set(Object.values(deflate)).size).toBe(7);
+    });
+
+    test('It should project the savings of re-encoding the table with the suggestion', async () => {
+      await writeTelemetry(20);
+
+      const suggestion = await db.suggestDictionary('telemetry');
+      const before = await db.getCompressionStats('telemetry');
+
+      expect(suggestion.currentBytes).toBe(before?.uncompressedBytes);
+      expect(suggestion.savedBytes).toBe(
+        suggestion.currentBytes - suggestion.projectedBytes
+      );
+      expect(suggestion.savedBytes).toBeGreaterThan(0);
+
+      db.addDictionary('x', suggestion.dictionary);
+      await db.reencodeTable('telemetry', 'x');
+      const after = await db.getCompressionStats('telemetry');
+
+      // Each record now also refers to its dictionary: ,"n":"x"
+      expect(after?.uncompressedBytes).toBe(suggestion.projectedBytes + 20 * 8);
+      expect(await db.get('telemetry', 't3')).toEqual({
+        temperature: 23,
+        humidity: 50,
+        a: 3,
+        location: { building: 'A', floor: 0 },
+        readings: [{ timestamp: 3 }, { timestamp: 4 }]
+      });
+    });
+
+    test('It should respect the minimum occurrences and maximum entries', async () => {
+      await writeTelemetry(3);
+
+      const { dictionary } = await db.suggestDictionary('telemetry', {
+        minOccurrences: 4,
+        maxEntries: 1
+      });
+      expect(dictionary.deflate).toEqual({ timestamp: 'b' });
+
+      const all = await db.suggestDictionary('telemetry', {
+        minOccurrences: 1,
+        maxEntries: 1000
+      });
+      // Single-character keys cannot get any shorter
+      expect(all.dictionary.deflate).not.toHaveProperty('a');
+
+      expect(await db.suggestDictionary('empty')).toEqual({
+        dictionary: { deflate: {} },
+        currentBytes: 0,
+        projectedBytes: 0,
+        savedBytes: 0
+      });
+      await expect(
+        db.suggestDictionary('telemetry', { minOccurrences: 0 })
+      ).rejects.toThrow('Minimum occurrences must be a positive integer');
+      await expect(
+        db.suggestDictionary('telemetry', { maxEntries: 1.5 })
+      ).rejects.toThrow('Maximum entries must be a positive integer');
+    });
+  });
+
+  describe('Dictionary Collisions', () => {
+    /**
+     * Seeded pseudo-random numbers (mulberry32), so every generated case is reproducible from its seed.
+     */
+    const createRandom = (seed: number) => () => {
+      seed = (seed + 0x6d2b79f5) | 0;
+      let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+      t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+
+    const pick = <T>(random: () => number, items: T[]): T =>
+      items[Math.floor(random() * items.length)];
+
+    const longKeys = [
+      'sensor',
+      'temperature',
+      'humidity',
+      'a',
+      'b',
+      'constructor'
+    ];
+    const shortKeys = ['a', 'b', 's', 't', 'x', 'constructor'];
+    // Keys that collide with short keys, escaped keys and object prototype properties
+    const dataKeys = [
+      ...new Set([...longKeys, ...shortKeys]),
+      '~a',
+      '~~a',
+      '~s',
+      '~~~t',
+      '~',
+      '~foo',
+      '',
+      'toString',
+      'hasOwnProperty',
+      '__proto__'
+    ];
+
+    const randomDictionary = (random: () => number) => {
+      const available = [...shortKeys];
+      const deflate: Record<string, string> = {};
+
+      for (const key of longKeys) {
+        if (random() < 0.5) continue;
+        const [shortKey] = available.splice(
+          Math.floor(random() * available.length),
+          1
+        );
+        deflate[key] = shortKey;
+      }
+
+      return processDictionary(
+        random() < 0.5
+          ? { deflate }
+          : { inflate: processDictionary({ deflate }).inflate }
+      );
+    };
+
+    const randomValue = (random: () => number, depth = 0): any => {
+      const kind = random();
+
+      if (depth > 3 || kind < 0.3) return pick(random, [1, 'text', true, null]);
+      if (kind < 0.45)
+        return Array.from({ length: Math.floor(random() * 3) }, () =>
+          randomValue(random, depth + 1)
+        );
+
+      // Object.fromEntries keeps __proto__ as an own key, like JSON.parse does
+      return Object.fromEntries(
+        Array.from({ length: Math.floor(random() * 6) }, () => [
+          pick(random, dataKeys),
+          randomValue(random, depth + 1)
+        ])
+      );
+    };
+
+    test('It should round-trip generated values losslessly through any dictionary', () => {
+      for (let seed = 1; seed <= 500; seed++) {
+        const random = createRandom(seed);
+        const dictionary = randomDictionary(random);
+        const value = randomValue(random);
+
+        const stored = JSON.parse(
+          JSON.stringify(transformValue(value, dictionary, 'deflate'))
+        );
+        const restored = transformValue(stored, dictionary, 'inflate');
+
+        expect(JSON.stringify(restored), `seed ${seed}`).toBe(
+          JSON.stringify(value)
+        );
+      }
+    });
+
+    test('It should never deflate two keys of an object into the same key', () => {
+      for (let seed = 1; seed <= 500; seed++) {
+        const random = createRandom(seed);
+        const dictionary = randomDictionary(random);
+        const value = Object.fromEntries(dataKeys.map((key) => [key, 1]));
+
+        const deflated = transformValue(value, dictionary, 'deflate');
+
+        expect(Object.keys(deflated), `seed ${seed}`).toHaveLength(
+          dataKeys.length
+        );
+      }
+    });
+
+    test('It should escape keys colliding with short keys when persisting', async () => {
+      db.addDictionary('sensors', {
+        deflate: { sensor: 's', temperature: 't' }
+      });
+      const value = {
+        sensor: 'DHT22',
+        s: 'collides with a short key',
+        '~s': 'looks escaped',
+        '~other': 'starts with the escape',
+        constructor: 'prototype property',
+        nested: [{ t: 1, temperature: 2 }]
+      };
+
+      await db.write('readings', 'r1', value, undefined, 'sensors');
+      expect(await readFile(join(testDir, 'readings'), 'utf8')).toContain(
+        '"d":{"s":"DHT22","~s":"collides with a short key","~~s":"looks escaped","~other":"starts with the escape"'
+      );
+
+      for (let seed = 1; seed <= 50; seed++) {
+        const random = createRandom(seed);
+        db.addDictionary(`generated${seed}`, {
+          deflate: randomDictionary(random).deflate
+        });
+        await db.write(
+          'generated',
+          `key${seed}`,
+          { value: randomValue(random) },
+          undefined,
+          `generated${seed}`
+        );
+      }
+      const generated = await db.get('generated');
+
+      await db.close();
+      db = new PikoDB({ databaseDirectory: testDir });
+      await db.start();
+
+      expect(await db.get('readings', 'r1')).toEqual(value);
+      expect(JSON.stringify(await db.get('generated'))).toBe(
+        JSON.stringify(generated)
+      );
+    });
+
+    test('It should reject dictionaries that are not one-to-one', () => {
+      expect(() =>
+        db.addDictionary('bad', { deflate: { sensor: 's', status: 's' } })
+      ).toThrow('Dictionary maps both "sensor" and "status" to "s"');
+      expect(() =>
+        db.addDictionary('bad', { inflate: { s: 'sensor', x: 'sensor' } })
+      ).toThrow('Dictionary maps both "s" and "x" to "sensor"');
+      expect(() =>
+        db.addDictionary('bad', { deflate: { sensor: '~s' } })
+      ).toThrow('Short key "~s" must not start with "~"');
+      expect(() =>
+        db.addDictionary('bad', { deflate: { sensor: '' } })
+      ).toThrow('Dictionary maps "sensor" to an empty or non-string key');
+      expect(
+        () =>
+          new PikoDB({
+            databaseDirectory: testDir,
+            dictionaries: { bad: { deflate: { a: 'x', b: 'x' } } }
+          })
+      ).toThrow('cannot be inverted');
+      expect(db.listDictionaries()).toEqual([]);
+    });
+  });
+
+  describe('Value Dictionaries', () => {
+    const dictionary = {
+      deflate: { unit: 'u', location: 'l', tags: 'g' },
+      values: { celsius: 'c', 'warehouse-A': 'wA' }
+    };
+
+    test('It should compress repeated string values at every nesting level', async () => {
+      db.addDictionary('sensors', dictionary);
+      const value = {
+        unit: 'celsius',
+        location: 'warehouse-A',
+        tags: ['celsius', { location: 'warehouse-A' }],
+        note: 'celsius and warehouse-A'
+      };
+
+      await db.write('readings', 'r1', value, undefined, 'sensors');
+      await db.write('readings', 'r2', 'celsius', undefined, 'sensors');
+
+      const content = await readFile(join(testDir, 'readings'), 'utf8');
+      expect(content).toContain(
+        '"d":{"u":"c","l":"wA","g":["c",{"l":"wA"}],"note":"celsius and warehouse-A"}'
+      );
+      expect(content).not.toContain('"warehouse-A"');
+
+      await db.close();
+      db = new PikoDB({ databaseDirectory: testDir });
+      await db.start();
+
+      expect(await db.get('readings', 'r1')).toEqual(value);
+      expect(await db.get('readings', 'r2')).toBe('celsius');
+    });
+
+    test('It should escape string values that collide with short values', async () => {
+      db.addDictionary('sensors', dictionary);
+      const value = {
+        unit: 'c',
+        location: '~c',
+        tags: ['wA', '~~wA', '~other', 'u']
+      };
+
+      await db.write('readings', 'r1', value, undefined, 'sensors');
+      expect(await readFile(join(testDir, 'readings'), 'utf8')).toContain(
+        '"d":{"u":"~c","l":"~~c","g":["~wA","~~~wA","~other","u"]}'
+      );
+
+      await db.close();
+      db = new PikoDB({ databaseDirectory: testDir });
+      await db.start();
+
+      expect(await db.get('readings', 'r1')).toEqual(value);
+    });
+
+    test('It should store values mappings as dictionary versions in the catalog', async () => {
+      db.addDictionary('sensors', { deflate: { unit: 'u' } });
+      await db.write(
+        'readings',
+        'r1',
+        { unit: 'celsius' },
+        undefined,
+        'sensors'
+      );
+
+      // Adding a values mapping, or changing it, stores a new version
+      db.addDictionary('sensors', {
+        deflate: { unit: 'u' },
+        values: { celsius: 'c' }
+      });
+      await db.write(
+        'readings',
+        'r2',
+        { unit: 'celsius' },
+        undefined,
+        'sensors'
+      );
+      db.addDictionary('sensors', {
+        deflate: { unit: 'u' },
+        values: { kelvin: 'c' }
+      });
+      await db.write(
+        'readings',
+        'r3',
+        { unit: 'kelvin' },
+        undefined,
+        'sensors'
+      );
+      db.addDictionary('sensors', {
+        deflate: { unit: 'u' },
+        values: { kelvin: 'c' }
+      });
+      await db.close();
+
+      expect(
+        JSON.parse(await readFile(join(testDir, '.dictionaries.json'), 'utf8'))
+      ).toEqual({
+        version: 2,
+        dictionaries: {
+          sensors: {
+            versions: [{ unit: 'u' }, { unit: 'u' }, { unit: 'u' }],
+            values: { 2: { celsius: 'c' }, 3: { kelvin: 'c' } }
+          }
+        }
+      });
+
+      db = new PikoDB({ databaseDirectory: testDir });
+      await db.start();
+
+      expect(await db.get('readings')).toEqual([
+        ['r1', { unit: 'celsius' }],
+        ['r2', { unit: 'celsius' }],
+        ['r3', { unit: 'kelvin' }]
+      ]);
+    });
+
+    test('It should reject invalid values mappings', () => {
+      expect(() =>
+        db.addDictionary('bad', {
+          deflate: { unit: 'u' },
+          values: { celsius: 'c', centimeter: 'c' }
+        })
+      ).toThrow('Dictionary maps both "celsius" and "centimeter" to "c"');
+      expect(() =>
+        db.addDictionary('bad', {
+          deflate: { unit: 'u' },
+          values: { celsius: '~c' }
+        })
+      ).toThrow('Short value "~c" must not start with "~"');
+      expect(() =>
+        db.addDictionary('bad', {
+          deflate: { unit: 'u' },
+          values: ['celsius'] as any
+        })
+      ).toThrow('Dictionary values must be a mapping of strings');
+      expect(db.listDictionaries()).toEqual([]);
+    });
+  });
+
+  describe('Key Range Scans', () => {
+    const keysOf = (entries: [string, any][]) => entries.map(([key]) => key);
+
+    test('It should scan keys with a prefix in key order', async () => {
+      for (const key of [
+        'order:2026-11:003',
+        'order:2026-10:002',
+        'customer:1',
+        'order:2026-10:001',
+        'order:2026-09:030',
+        'order:2026-10'
+      ])
+        await db.write('orders', key, { key });
+
+      expect(await db.scan('orders', { prefix: 'order:2026-10:' })).toEqual([
+        ['order:2026-10:001', { key: 'order:2026-10:001' }],
+        ['order:2026-10:002', { key: 'order:2026-10:002' }]
+      ]);
+      expect(
+        keysOf(await db.scan('orders', { prefix: 'order:2026-1' }))
+      ).toEqual([
+        'order:2026-10',
+        'order:2026-10:001',
+        'order:2026-10:002',
+        'order:2026-11:003'
+      ]);
+      expect(await db.scan('orders', { prefix: 'invoice:' })).toEqual([]);
+
+      // get() keeps returning records in insertion order
+      expect(keysOf(await db.get('orders'))[0]).toBe('order:2026-11:003');
+    });
+
+    test('It should combine bounds, limit and reverse', async () => {
+      for (const key of ['e', 'a', 'd', 'b', 'c', 'ca', 'f'])
+        await db.write('letters', key, key.toUpperCase());
+
+      expect(keysOf(await db.scan('letters'))).toEqual([
+        'a',
+        'b',
+        'c',
+        'ca',
+        'd',
+        'e',
+        'f'
+      ]);
+      expect(keysOf(await db.scan('letters', { gt: 'b', lte: 'd' }))).toEqual([
+        'c',
+        'ca',
+        'd'
+      ]);
+      expect(keysOf(await db.scan('letters', { gte: 'b', lt: 'd' }))).toEqual([
+        'b',
+        'c',
+        'ca'
+      ]);
+      expect(
+        keysOf(await db.scan('letters', { prefix: 'c', gt: 'c' }))
+      ).toEqual(['ca']);
+      expect(
+        keysOf(await db.scan('letters', { reverse: true, limit: 3 }))
+      ).toEqual(['f', 'e', 'd']);
+      expect(
+        await db.scan('letters', { lt: 'd', reverse: true, limit: 2 })
+      ).toEqual([
+        ['ca', 'CA'],
+        ['c', 'C']
+      ]);
+      expect(await db.scan('letters', { gt: 'x' })).toEqual([]);
+      expect(await db.scan('letters', { gte: 'd', lte: 'b' })).toEqual([]);
+      expect(await db.scan('missing')).toEqual([]);
+    });
+
+    test('It should keep keys sorted through writes, deletes and restarts', async () => {
+      // Insert keys in a scrambled order, scanning once to build the sorted keys early
+      for (let index = 0; index < 100; index++) {
+        const key = `key${String((index * 37) % 100).padStart(3, '0')}`;
+        await db.write('items', key, index);
+        if (index === 10) await db.scan('items');
+      }
+      for (let index = 0; index < 100; index += 3)
+        await db.delete('items', `key${String(index).padStart(3, '0')}`);
+      await db.write('items', 'key050', 'updated');
+      await db.write('items', 'key999', 'last', Date.now() - 1000);
+
+      const expected = Array.from(
+        { length: 100 },
+        (_, index) => `key${String(index).padStart(3, '0')}`
+      ).filter((_, index) => index % 3 !== 0);
+
+      expect(keysOf(await db.scan('items'))).toEqual(expected);
+      expect(
+        keysOf(await db.scan('items', { gte: 'key040', lt: 'key050' }))
+      ).toEqual(expected.filter((key) => key >= 'key040' && key < 'key050'));
+      expect(await db.scan('items', { prefix: 'key05', limit: 1 })).toEqual([
+        ['key050', 'updated']
+      ]);
+
+      await db.close();
+      db = new PikoDB({ databaseDirectory: testDir });
+      await db.start();
+
+      expect(keysOf(await db.scan('items', { reverse: true }))).toEqual(
+        expected.slice().reverse()
+      );
+    });
+
+    test('It should keep a large table sorted without splicing in every imported key', async () => {
+      const count = 20000;
+      const keyOf = (index: number) => `key${String(index).padStart(5, '0')}`;
+
+      await db.write('items', keyOf(0), 0);
+      await db.scan('items');
+
+      // Import the other keys in a scrambled order
+      const lines: string[] = [];
+      for (let index = 1; index < count; index++) {
+        const scrambled = (index * 7919) % count;
+        if (scrambled !== 0)
+          lines.push(
+            `${JSON.stringify({ key: keyOf(scrambled), value: 1 })}\n`
+          );
+      }
+
+      const splice = vi.spyOn(Array.prototype, 'splice');
+      try {
+        await db.importTable('items', Readable.from(lines));
+        await db.delete('items', keyOf(1));
+
+        const keys = keysOf(await db.scan('items'));
+        expect(keys).toHaveLength(count - 1);
+        expect(keys.slice(0, 3)).toEqual([keyOf(0), keyOf(2), keyOf(3)]);
+        expect(keys.at(-1)).toBe(keyOf(count - 1));
+        expect(
+          keys.every((key, index) => index === 0 || keys[index - 1] < key)
+        ).toBe(true);
+
+        expect(splice.mock.calls.length).toBeLessThan(100);
+      } finally {
+        splice.mockRestore();
+      }
+    });
+
+    test('It should reject invalid scan options', async () => {
+      await expect(db.scan('items', { gt: 'a', gte: 'a' })).rejects.toThrow(
+        'Scan options "gt" and "gte" must not be combined'
+      );
+      await expect(db.scan('items', { lt: 'a', lte: 'a' })).rejects.toThrow(
+        'Scan options "lt" and "lte" must not be combined'
+      );
+      await expect(db.scan('items', { prefix: 1 as any })).rejects.toThrow(
+        'Scan option "prefix" must be a string'
+      );
+      await expect(db.scan('items', { limit: 0 })).rejects.toThrow(
+        'Scan limit must be a positive integer'
+      );
+      await expect(db.scan('../items')).rejects.toThrow(
+        'Table name must not contain path separators'
+      );
+    });
+  });
+
+  describe('Secondary Indexes', () => {
+    const keysOf = (entries: [string, any][]) => entries.map(([key]) => key);
+
+    const reopen = async (options: Record<string, any> = {}) => {
+      await db.close();
+      db = new PikoDB({ databaseDirectory: testDir, ...options });
+      await db.start();
+    };
+
+    test('It should find records by an indexed field as they change', async () => {
+      await db.write('users', 'user1', {
+        email: 'alice@example.com',
+        address: { city: 'Oslo' }
+      });
+      await db.write('users', 'user2', {
+        email: 'bob@example.com',
+        address: { city: 'Bergen' }
+      });
+      await db.createIndex('users', 'byEmail', { field: 'email' });
+      await db.createIndex('users', 'byCity', { field: 'address.city' });
+
+      expect(
+        await db.findByIndex('users', 'byEmail', 'alice@example.com')
+      ).toEqual([
+        ['user1', { email: 'alice@example.com', address: { city: 'Oslo' } }]
+      ]);
+
+      await db.write('users', 'user3', {
+        email: 'carol@example.com',
+        address: { city: 'Oslo' }
+      });
+      await db.write('users', 'user1', {
+        email: 'alice@example.org',
+        address: { city: 'Oslo' }
+      });
+      await db.delete('users', 'user2');
+      await db.write('users', 'user4', { email: ['not', 'indexed'] });
+
+      expect(keysOf(await db.findByIndex('users', 'byCity', 'Oslo'))).toEqual([
+        'user1',
+        'user3'
+      ]);
+      expect(await db.findByIndex('users', 'byCity', 'Bergen')).toEqual([]);
+      expect(
+        await db.findByIndex('users', 'byEmail', 'alice@example.com')
+      ).toEqual([]);
+      expect(
+        keysOf(await db.findByIndex('users', 'byEmail', 'alice@example.org'))
+      ).toEqual(['user1']);
+    });
+
+    test('It should index values returned by a function', async () => {
+      await db.createIndex('users', 'byDomain', {
+        field: (user) => user.email.split('@')[1]
+      });
+      await db.write('users', 'user1', { email: 'alice@example.com' });
+      await db.write('users', 'user2', { email: 'bob@example.org' });
+      await db.write('users', 'user3', { name: 'No email' });
+
+      expect(
+        keysOf(await db.findByIndex('users', 'byDomain', 'example.org'))
+      ).toEqual(['user2']);
+      expect(await db.get('users', 'user3')).toEqual({ name: 'No email' });
+    });
+
+    test('It should reject writes that break a unique index', async () => {
+      await db.createIndex('users', 'byEmail', {
+        field: 'email',
+        unique: true
+      });
+      await db.write('users', 'user1', { email: 'alice@example.com' });
+
+      const error = await db
+        .write('users', 'user2', { email: 'alice@example.com' })
+        .catch((error) => error);
+
+      expect(error).toBeInstanceOf(UniqueConstraintError);
+      expect(error.indexName).toBe('byEmail');
+      expect(error.value).toBe('alice@example.com');
+      expect(error.existingKey).toBe('user1');
+      expect(await db.get('users', 'user2')).toBeUndefined();
+
+      // The same record may keep its value, and freed values can be reused
+      expect(
+        await db.write('users', 'user1', {
+          email: 'alice@example.com',
+          name: 'Alice'
+        })
+      ).toBe(true);
+      await db.write('users', 'user1', { email: 'alice@example.org' });
+      expect(
+        await db.write('users', 'user2', { email: 'alice@example.com' })
+      ).toBe(true);
+
+      // Expired records never conflict, and are skipped by lookups
+      await db.write(
+        'users',
+        'user3',
+        { email: 'carol@example.com' },
+        Date.now() - 1000
+      );
+      expect(
+        await db.findByIndex('users', 'byEmail', 'carol@example.com')
+      ).toEqual([]);
+      expect(
+        await db.write('users', 'user4', { email: 'carol@example.com' })
+      ).toBe(true);
+    });
+
+    test('It should reject imports and migrations that break a unique index', async () => {
+      await db.createIndex('users', 'byEmail', {
+        field: 'email',
+        unique: true
+      });
+      await db.write('users', 'user1', { email: 'alice@example.com' });
+
+      await expect(
+        db.importTable(
+          'users',
+          Readable.from([
+            '{"key":"user2","value":{"email":"alice@example.com"}}\n'
+          ])
+        )
+      ).rejects.toThrow(UniqueConstraintError);
+
+      // Replacing the table frees the values of the records it removes
+      await db.importTable(
+        'users',
+        Readable.from([
+          '{"key":"user2","value":{"email":"alice@example.com"}}\n'
+        ]),
+        { mode: 'replace' }
+      );
+      expect(
+        keysOf(await db.findByIndex('users', 'byEmail', 'alice@example.com'))
+      ).toEqual(['user2']);
+
+      await db.write('users', 'user3', { email: 'bob@example.com' });
+      await expect(
+        db.migrate([
+          {
+            id: 'same-email',
+            table: 'users',
+            up: (user) => ({ ...user, email: 'same@example.com' })
+          }
+        ])
+      ).rejects.toThrow(UniqueConstraintError);
+      expect(await db.get('users', 'user3')).toEqual({
+        email: 'bob@example.com'
+      });
+    });
+
+    test('It should validate index definitions', async () => {
+      await db.write('users', 'user1', { email: 'alice@example.com' });
+      await db.write('users', 'user2', { email: 'alice@example.com' });
+
+      await expect(
+        db.createIndex('users', 'byEmail', { field: 'email', unique: true })
+      ).rejects.toThrow(UniqueConstraintError);
+      await expect(
+        db.findByIndex('users', 'byEmail', 'alice@example.com')
+      ).rejects.toThrow('Index "byEmail" does not exist on table "users"');
+
+      await db.createIndex('users', 'byEmail', { field: 'email' });
+      await db.createIndex('users', 'byEmail', { field: 'email' });
+      await expect(
+        db.createIndex('users', 'byEmail', { field: 'name' })
+      ).rejects.toThrow('already exists on table "users"');
+      await expect(
+        db.createIndex('users', 'byName', { field: 'address..city' })
+      ).rejects.toThrow('Index field must be a field path');
+      await expect(
+        db.createIndex('users', '', { field: 'name' })
+      ).rejects.toThrow('Index name must be a non-empty string');
+    });
+
+    test('It should persist indexes on fields and rebuild them on load', async () => {
+      await db.write('users', 'user1', { email: 'alice@example.com' });
+      await db.createIndex('users', 'byEmail', {
+        field: 'email',
+        unique: true
+      });
+      await db.createIndex('users', 'byName', { field: (user) => user.name });
+
+      expect(
+        JSON.parse(await readFile(join(testDir, '.system.json'), 'utf8'))
+          .indexes
+      ).toEqual([
+        { table: 'users', name: 'byEmail', field: 'email', unique: true }
+      ]);
+
+      await reopen({ lazyLoad: true });
+
+      expect(
+        keysOf(await db.findByIndex('users', 'byEmail', 'alice@example.com'))
+      ).toEqual(['user1']);
+      await expect(
+        db.write('users', 'user2', { email: 'alice@example.com' })
+      ).rejects.toThrow(UniqueConstraintError);
+
+      // Indexes with a function must be created again
+      await expect(db.findByIndex('users', 'byName', 'Alice')).rejects.toThrow(
+        'does not exist'
+      );
+
+      expect(await db.dropIndex('users', 'byEmail')).toBe(true);
+      expect(await db.dropIndex('users', 'byEmail')).toBe(false);
+      await reopen();
+
+      expect(
+        await db.write('users', 'user2', { email: 'alice@example.com' })
+      ).toBe(true);
+      expect(
+        JSON.parse(await readFile(join(testDir, '.system.json'), 'utf8'))
+          .indexes
+      ).toEqual([]);
+    });
+  });
+
+  describe('Declarative Queries', () => {
+    const keysOf = (entries: [string, any][]) => entries.map(([key]) => key);
+
+    const users = {
+      user1: {
+        name: 'Alice',
+        age: 34,
+        role: 'admin',
+        address: { city: 'Oslo' }
+      },
+      user2: {
+        name: 'Bob',
+        age: 17,
+        role: 'member',
+        address: { city: 'Bergen' }
+      },
+      user3: {
+        name: 'Carol',
+        age: 51,
+        role: 'editor',
+        address: { city: 'Oslo' }
+      },
+      user4: { name: 'Dave', age: 17, role: 'member' },
+      user5: { name: 'Erin', role: 'member', address: { city: 'Oslo' } }
+    };
+
+    beforeEach(async () => {
+      // Written out of key order, as results are in key order regardless
+      for (const key of ['user3', 'user1', 'user5', 'user2', 'user4'])
+        await db.write('users', key, users[key as keyof typeof users]);
+    });
+
+    test('It should filter records with operators', async () => {
+      const find = async (where: Record<string, any>) =>
+        keysOf(await db.query('users', { where }));
+
+      expect(await find({ age: { $gte: 18 }, 'address.city': 'Oslo' })).toEqual(
+        ['user1', 'user3']
+      );
+      expect(await find({ age: 17 })).toEqual(['user2', 'user4']);
+      expect(await find({ age: { $eq: 17 } })).toEqual(['user2', 'user4']);
+      expect(await find({ role: { $ne: 'member' } })).toEqual([
+        'user1',
+        'user3'
+      ]);
+      expect(await find({ 'address.city': { $ne: 'Oslo' } })).toEqual([
+        'user2',
+        'user4'
+      ]);
+      expect(await find({ role: { $in: ['admin', 'editor'] } })).toEqual([
+        'user1',
+        'user3'
+      ]);
+      expect(await find({ age: { $gt: 17, $lt: 51 } })).toEqual(['user1']);
+      expect(await find({ age: { $lte: 17 } })).toEqual(['user2', 'user4']);
+      expect(await find({ name: { $gte: 'C' } })).toEqual([
+        'user3',
+        'user4',
+        'user5'
+      ]);
+      expect(await find({ age: { $exists: false } })).toEqual(['user5']);
+      expect(await find({ address: { $exists: true } })).toHaveLength(4);
+      expect(await find({ name: { $regex: '^[a-c]' } })).toEqual([]);
+      expect(await find({ name: { $regex: /^[a-c]/gi } })).toEqual([
+        'user1',
+        'user2',
+        'user3'
+      ]);
+      expect(await find({ address: { city: 'Bergen' } })).toEqual(['user2']);
+      expect(
+        await find({
+          $or: [
+            { age: { $gt: 50 } },
+            { role: 'member', age: { $exists: false } }
+          ]
+        })
+      ).toEqual(['user3', 'user5']);
+      expect(
+        await find({ $and: [{ role: 'member' }, { age: { $lt: 18 } }] })
+      ).toEqual(['user2', 'user4']);
+    });
+
+    test('It should project, sort and page through the matches', async () => {
+      expect(
+        await db.query('users', {
+          where: { role: 'member' },
+          select: ['name', 'address.city', 'missing'],
+          orderBy: { age: 'desc' }
+        })
+      ).toEqual([
+        ['user2', { name: 'Bob', address: { city: 'Bergen' } }],
+        ['user4', { name: 'Dave' }],
+        ['user5', { name: 'Erin', address: { city: 'Oslo' } }]
+      ]);
+      expect(
+        keysOf(
+          await db.query('users', { orderBy: { age: 'asc', name: 'desc' } })
+        )
+      ).toEqual(['user4', 'user2', 'user1', 'user3', 'user5']);
+      expect(
+        keysOf(
+          await db.query('users', {
+            orderBy: { 'address.city': 'asc' },
+            offset: 1,
+            limit: 3
+          })
+        )
+      ).toEqual(['user1', 'user3', 'user5']);
+      expect(keysOf(await db.query('users', { offset: 3, limit: 10 }))).toEqual(
+        ['user4', 'user5']
+      );
+
+      // Projections never share structure with the stored value
+      const [[, projected]] = await db.query('users', {
+        where: { name: 'Alice' },
+        select: ['address', 'address.city']
+      });
+      expect(projected).toEqual({ address: { city: 'Oslo' } });
+      expect(await db.get('users', 'user1')).toEqual(users.user1);
+    });
+
+    test('It should use secondary indexes for equality conditions', async () => {
+      await db.createIndex('users', 'byRole', { field: 'role' });
+      await db.createIndex('users', 'byCity', { field: 'address.city' });
+      await db.write(
+        'users',
+        'user6',
+        { name: 'Frank', role: 'admin', address: { city: 'Oslo' } },
+        Date.now() - 1000
+      );
+
+      // A record no index points to for the queries below, counting reads of its fields
+      let reads = 0;
+      const guest = { name: 'Grace' };
+      for (const [field, value] of [
+        ['role', 'guest'],
+        ['address', { city: 'Bergen' }]
+      ] as [string, unknown][])
+        Object.defineProperty(guest, field, {
+          enumerable: true,
+          get: () => {
+            reads++;
+            return value;
+          }
+        });
+      await db.write('users', 'user7', guest);
+
+      const byCityAndRole = {
+        where: { 'address.city': 'Oslo', role: { $in: ['admin', 'editor'] } }
+      };
+      expect(keysOf(await db.query('users', byCityAndRole))).toEqual([
+        'user1',
+        'user3'
+      ]);
+
+      // Expired records were cleaned up along the way
+      expect(await db.findByIndex('users', 'byRole', 'admin')).toEqual([
+        ['user1', users.user1]
+      ]);
+
+      // Cleaning up persisted the table, which read every field
+      reads = 0;
+
+      expect(keysOf(await db.query('users', byCityAndRole))).toEqual([
+        'user1',
+        'user3'
+      ]);
+      expect(
+        keysOf(
+          await db.query('users', { where: { $and: [{ role: 'member' }] } })
+        )
+      ).toEqual(['user2', 'user4', 'user5']);
+      expect(reads).toBe(0);
+
+      // Conditions other than equality visit every record
+      expect(
+        keysOf(await db.query('users', { where: { role: { $ne: 'admin' } } }))
+      ).toEqual(['user2', 'user3', 'user4', 'user5', 'user7']);
+      expect(reads).toBeGreaterThan(0);
+    });
+
+    test('It should reject invalid queries', async () => {
+      await expect(
+        db.query('users', { where: { age: { $between: [1, 2] } } })
+      ).rejects.toThrow('Unknown query operator "$between"');
+      await expect(
+        db.query('users', { where: { $not: { age: 1 } } })
+      ).rejects.toThrow('Unknown query operator "$not"');
+      await expect(
+        db.query('users', { where: { age: { $gt: 1, max: 2 } } })
+      ).rejects.toThrow('must not mix operators and fields');
+      await expect(
+        db.query('users', { where: { role: { $in: 'admin' } } })
+      ).rejects.toThrow('Query operator "$in" on "role" must be an array');
+      await expect(
+        db.query('users', { where: { age: { $gt: null } } })
+      ).rejects.toThrow('must be a number or a string');
+      await expect(
+        db.query('users', { where: { name: { $regex: '(' } } })
+      ).rejects.toThrow('Invalid regular expression');
+      await expect(
+        db.query('users', { where: { $or: { age: 1 } } as any })
+      ).rejects.toThrow('Query operator "$or" must be an array of filters');
+      await expect(
+        db.query('users', { orderBy: { age: 'up' } as any })
+      ).rejects.toThrow('Query order of "age" must be "asc" or "desc"');
+      await expect(db.query('users', { select: ['a..b'] })).rejects.toThrow(
+        'Query select must be an array of field paths'
+      );
+      await expect(db.query('users', { offset: -1 })).rejects.toThrow(
+        'Query offset must be a non-negative integer'
+      );
+    });
+  });
+
+  describe('Cursor Pagination', () => {
+    const keysOf = (entries: [string, any][]) => entries.map(([key]) => key);
+
+    const listAll = async (tableName: string, limit: number) => {
+      const pages: string[][] = [];
+      let cursor: string | undefined;
+
+      do {
+        const page = await db.list(tableName, { limit, cursor });
+        pages.push(keysOf(page.items));
+        cursor = page.nextCursor ?? undefined;
+      } while (cursor);
+
+      return pages;
+    };
+
+    test('It should page through a table in key order', async () => {
+      for (const key of ['e', 'a', 'd', 'c', 'b', 'f'])
+        await db.write('items', key, { key });
+
+      expect(await listAll('items', 4)).toEqual([
+        ['a', 'b', 'c', 'd'],
+        ['e', 'f']
+      ]);
+      // No empty page when the last page is full
+      expect(await listAll('items', 3)).toEqual([
+        ['a', 'b', 'c'],
+        ['d', 'e', 'f']
+      ]);
+
+      const page = await db.list('items', { limit: 2 });
+      expect(page.items).toEqual([
+        ['a', { key: 'a' }],
+        ['b', { key: 'b' }]
+      ]);
+      expect(page.nextCursor).toMatch(/^[A-Za-z0-9_-]+$/);
+
+      expect(await db.list('missing')).toEqual({ items: [], nextCursor: null });
+    });
+
+    test('It should default to pages of 100 records', async () => {
+      await Promise.all(
+        Array.from({ length: 150 }, (_, index) =>
+          db.write('items', `item${String(index).padStart(3, '0')}`, index)
+        )
+      );
+
+      const first = await db.list('items');
+      expect(first.items).toHaveLength(100);
+      expect(first.items[99]).toEqual(['item099', 99]);
+
+      const second = await db.list('items', {
+        cursor: first.nextCursor as string
+      });
+      expect(second.items).toHaveLength(50);
+      expect(second.nextCursor).toBeNull();
+    });
+
+    test('It should keep cursors valid across concurrent writes and deletes', async () => {
+      for (const key of ['b', 'd', 'f', 'h', 'j'])
+        await db.write('items', key, 1);
+
+      const first = await db.list('items', { limit: 2 });
+      expect(keysOf(first.items)).toEqual(['b', 'd']);
+
+      // Delete the key the cursor points after, write before and after it
+      await db.delete('items', 'd');
+      await db.delete('items', 'h');
+      await Promise.all([
+        db.write('items', 'a', 1),
+        db.write('items', 'e', 1),
+        db.write('items', 'k', 1),
+        db.write('items', 'f', 2)
+      ]);
+
+      const second = await db.list('items', {
+        limit: 2,
+        cursor: first.nextCursor as string
+      });
+      expect(second.items).toEqual([
+        ['e', 1],
+        ['f', 2]
+      ]);
+
+      const third = await db.list('items', {
+        limit: 2,
+        cursor: second.nextCursor as string
+      });
+      expect(keysOf(third.items)).toEqual(['j', 'k']);
+      expect(third.nextCursor).toBeNull();
+
+      // Cursors of an earlier page still work after the table moved on
+      expect(
+        keysOf(
+          (await db.list('items', { cursor: first.nextCursor as string })).items
+        )
+      ).toEqual(['e', 'f', 'j', 'k']);
+    });
+
+    test('It should skip and clean up expired records', async () => {
+      await db.write('items', 'a', 1);
+      await db.write('items', 'b', 2, Date.now() - 1000);
+      await db.write('items', 'c', 3);
+      await db.write('items', 'd', 4, Date.now() - 1000);
+
+      const first = await db.list('items', { limit: 1 });
+      expect(first.items).toEqual([['a', 1]]);
+
+      // The last live record is on this page, so there is no next one
+      const second = await db.list('items', {
+        limit: 1,
+        cursor: first.nextCursor as string
+      });
+      expect(second).toEqual({ items: [['c', 3]], nextCursor: null });
+
+      expect(await db.getTableSize('items')).toBe(2);
+    });
+
+    test('It should reject invalid options and cursors', async () => {
+      await db.write('items', 'a', 1);
+      await db.write('items', 'b', 2);
+      const { nextCursor } = await db.list('items', { limit: 1 });
+
+      await expect(db.list('items', { limit: 0 })).rejects.toThrow(
+        'List limit must be a positive integer'
+      );
+      await expect(db.list('items', { limit: 1.5 })).rejects.toThrow(
+        'List limit must be a positive integer'
+      );
+      await expect(
+        db.list('items', { cursor: 42 as unknown as string })
+      ).rejects.toThrow('List cursor must be a string');
+      await expect(
+        db.list('items', { cursor: 'not-a-cursor' })
+      ).rejects.toThrow('Invalid list cursor');
+      await expect(
+        db.list('other', { cursor: nextCursor as string })
+      ).rejects.toThrow(
+        'List cursor was issued for table "items", not "other"'
+      );
+    });
+  });
+
+  describe('Table Iteration', () => {
+    const collect = async <T>(iterable: AsyncIterable<T>) => {
+      const items: T[] = [];
+      for await (const item of iterable) items.push(item);
+      return items;
+    };
+
+    beforeEach(async () => {
+      for (const key of ['c', 'a', 'e', 'b', 'd'])
+        await db.write('items', key, { key });
+    });
+
+    test('It should iterate over entries, keys and values in key order', async () => {
+      expect(await collect(db.entries('items', { batchSize: 2 }))).toEqual([
+        ['a', { key: 'a' }],
+        ['b', { key: 'b' }],
+        ['c', { key: 'c' }],
+        ['d', { key: 'd' }],
+        ['e', { key: 'e' }]
+      ]);
+      expect(await collect(db.keys('items'))).toEqual([
+        'a',
+        'b',
+        'c',
+        'd',
+        'e'
+      ]);
+      expect(await collect(db.values('items', { batchSize: 1 }))).toHaveLength(
+        5
+      );
+
+      expect(
+        await collect(db.keys('items', { gt: 'a', lte: 'd', batchSize: 2 }))
+      ).toEqual(['b', 'c', 'd']);
+      expect(
+        await collect(
+          db.keys('items', { reverse: true, lt: 'e', batchSize: 2 })
+        )
+      ).toEqual(['d', 'c', 'b', 'a']);
+      expect(await collect(db.keys('missing'))).toEqual([]);
+    });
+
+    test('It should work with Readable.from and stop early on break', async () => {
+      const stream = Readable.from(db.keys('items', { batchSize: 2 }));
+      expect(await stream.toArray()).toEqual(['a', 'b', 'c', 'd', 'e']);
+
+      const keys: string[] = [];
+      for await (const key of db.keys('items')) {
+        keys.push(key);
+        if (keys.length === 2) break;
+      }
+      expect(keys).toEqual(['a', 'b']);
+    });
+
+    test('It should not allocate the whole table at once', async () => {
+      const rangeKeys = vi.spyOn(SortedMap.prototype, 'rangeKeys');
+
+      const iterator = db.entries('items', { batchSize: 2 });
+      const keys = [(await iterator.next()).value[0]];
+
+      // Only the first batch was read
+      expect(rangeKeys).toHaveBeenCalledTimes(1);
+      rangeKeys.mockRestore();
+
+      // Later batches are read when reached, so they see writes made meanwhile
+      await db.write('items', 'bb', 1);
+      await db.write('items', 'f', 1);
+      for await (const [key] of iterator) keys.push(key);
+
+      expect(keys).toEqual(['a', 'b', 'bb', 'c', 'd', 'e', 'f']);
+    });
+
+    test('It should see writes and deletes between batches', async () => {
+      const keys: string[] = [];
+
+      for await (const [key] of db.entries('items', { batchSize: 2 })) {
+        keys.push(key);
+
+        if (key === 'b') {
+          await db.delete('items', 'd');
+          await db.write('items', 'aa', 1);
+          await db.write('items', 'cc', 1);
+          await db.write('items', 'f', 1);
+        }
+      }
+
+      expect(keys).toEqual(['a', 'b', 'c', 'cc', 'e', 'f']);
+    });
+
+    test('It should skip and clean up expired records', async () => {
+      await db.write('items', 'b', 1, Date.now() - 1000);
+      await db.write('items', 'd', 1, Date.now() - 1000);
+
+      expect(await collect(db.keys('items', { batchSize: 2 }))).toEqual([
+        'a',
+        'c',
+        'e'
+      ]);
+      expect(await db.getTableSize('items')).toBe(3);
+    });
+
+    test('It should stop with the abort reason once aborted', async () => {
+      const controller = new AbortController();
+      const keys: string[] = [];
+
+      await expect(async () => {
+        for await (const key of db.keys('items', {
+          signal: controller.signal,
+          batchSize: 10
+        })) {
+          keys.push(key);
+          if (key === 'b') controller.abort(new Error('Stopped'));
+        }
+      }).rejects.toThrow('Stopped');
+      expect(keys).toEqual(['a', 'b']);
+
+      await expect(
+        db.entries('items', { signal: AbortSignal.abort() }).next()
+      ).rejects.toThrow('This operation was aborted');
+
+      await expect(
+        Readable.from(
+          db.entries('items', { signal: AbortSignal.abort() })
+        ).toArray()
+      ).rejects.toThrow('This operation was aborted');
+    });
+
+    test('It should throw instead of ending early when the table cannot be read', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const key = randomBytes(32);
+      await db.close();
+
+      await writeFile(join(testDir, 'items'), 'invalid json data', 'utf8');
+      db = new PikoDB({ databaseDirectory: testDir });
+      await db.start();
+      await expect(collect(db.entries('items'))).rejects.toThrow(
+        TableCorruptedError
+      );
+      await db.close();
+
+      db = new PikoDB({ databaseDirectory: testDir, encryption: { key } });
+      await db.start();
+      await db.write('secrets', 'a', 1);
+      await db.close();
+
+      db = new PikoDB({
+        databaseDirectory: testDir,
+        encryption: { key: randomBytes(32) },
+        lazyLoad: true
+      });
+      await db.start();
+      await expect(collect(db.values('secrets'))).rejects.toThrow(
+        EncryptionKeyError
+      );
+      vi.restoreAllMocks();
+    });
+
+    test('It should reject invalid options when called', () => {
+      expect(() => db.entries('items', { gt: 1 as any })).toThrow(
+        'Iteration option "gt" must be a string'
+      );
+      expect(() => db.keys('items', { lt: 'a', lte: 'b' })).toThrow(
+        'Iteration options "lt" and "lte" must not be combined'
+      );
+      expect(() => db.values('items', { signal: {} as AbortSignal })).toThrow(
+        'Iteration signal must be an AbortSignal'
+      );
+      expect(() => db.entries('items', { batchSize: 0 })).toThrow(
+        'Iteration batch size must be a positive integer'
+      );
+      expect(() => db.entries('../items')).toThrow();
+    });
+  });
 });